@@ -0,0 +1,412 @@
+import * as net from "net";
+import {
+    isRecord,
+    type DataSource,
+    type DataSourceConfig,
+    type DataSourceDefinition,
+    type BroadcastFunction,
+    type Logger,
+    type DataSourceMessage,
+    type MessageType,
+} from "./dataSource";
+import type { ADSBMessagePayload, ReadsbAircraft } from "./messagePayloads";
+import { parseEmitterCategory } from "./aircraftTypes";
+import { isPointInBounds } from "./regions";
+import { parseSBSLine, type SBSReport } from "./sbs";
+import { getVehicleId, type Vehicle, type VehicleOfKind } from "./vehicles";
+
+declare module "./dataSource" {
+    interface MessagePayloads {
+        ADSB: ADSBMessagePayload;
+    }
+}
+
+// readsb rewrites aircraft.json every second
+const JSON_POLL_INTERVAL_MS = 1000;
+// SBS streams send many messages a second for each aircraft, so they're
+// gathered up and sent on this often
+const SBS_BROADCAST_INTERVAL_MS = 1000;
+// Aircraft that haven't sent anything over SBS for this long are forgotten
+const SBS_AIRCRAFT_TIMEOUT_MS = 60 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+// Receivers keep listing aircraft for a while after their last position, so
+// positions older than this are left out
+const MAX_POSITION_AGE_SECONDS = 60;
+
+const FEET_TO_METERS = 0.3048;
+const KNOTS_TO_METERS_PER_SECOND = 0.514444;
+
+export interface ADSBConfig {
+    // http(s):// URL of a receiver's aircraft.json, or sbs://host:port (or
+    // tcp://host:port) of its BaseStation output
+    url: string;
+}
+
+// What we've heard about an aircraft over SBS so far
+interface SBSAircraft {
+    report: SBSReport;
+    lastHeard: number;
+    positionTime?: number;
+    changed: boolean;
+}
+
+/**
+ * Convert what we've heard about an aircraft over SBS into the same format as
+ * aircraft.json
+ */
+const toReadsbAircraft = (
+    { report, lastHeard, positionTime }: SBSAircraft,
+    now: number,
+): ReadsbAircraft => {
+    return {
+        hex: report.hex,
+        flight: report.callsign,
+        alt_baro: report.onGround ? "ground" : report.altitudeFeet,
+        gs: report.groundSpeedKnots,
+        track: report.track,
+        baro_rate: report.verticalRateFeetPerMinute,
+        squawk: report.squawk,
+        spi: report.spi === undefined ? undefined : Number(report.spi),
+        lat: report.lat,
+        lon: report.lon,
+        seen_pos:
+            positionTime === undefined
+                ? undefined
+                : (now - positionTime) / 1000,
+        seen: (now - lastHeard) / 1000,
+    };
+};
+
+type ReceiverListener = (payload: ADSBMessagePayload) => void;
+
+/**
+ * A connection to one ADS-B receiver, shared by every region reading from
+ * it, so that panning across tiles doesn't open a connection (or start
+ * polling) for each of them. Listeners get every aircraft the receiver
+ * reports, and pick out the ones in their region.
+ */
+class ADSBReceiverConnection {
+    private url: URL;
+    private log: Logger;
+    private listeners = new Set<ReceiverListener>();
+    private intervalId?: NodeJS.Timeout;
+    private reconnectTimeoutId?: NodeJS.Timeout;
+    private socket?: net.Socket;
+    private sbsAircraft = new Map<string, SBSAircraft>();
+
+    constructor(url: URL) {
+        this.url = url;
+        // The connection is shared between regions, so it isn't logged as any
+        // one region's
+        this.log = (...args) => console.log("ADS-B receiver: ", ...args);
+    }
+
+    /**
+     * Start getting aircraft, connecting to the receiver if nobody else is.
+     * Returns a function that stops them, and disconnects once nobody's left.
+     */
+    subscribe(listener: ReceiverListener): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) {
+            this.open();
+        }
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.close();
+            }
+        };
+    }
+
+    private open() {
+        if (this.url.protocol === "http:" || this.url.protocol === "https:") {
+            this.fetchAircraftJSON();
+            this.intervalId = setInterval(() => {
+                this.fetchAircraftJSON();
+            }, JSON_POLL_INTERVAL_MS);
+        } else {
+            this.connectSBS();
+            this.intervalId = setInterval(() => {
+                this.broadcastSBSAircraft();
+            }, SBS_BROADCAST_INTERVAL_MS);
+        }
+    }
+
+    private close() {
+        this.log("Closing connection");
+        clearInterval(this.intervalId);
+        clearTimeout(this.reconnectTimeoutId);
+        this.intervalId = undefined;
+        this.reconnectTimeoutId = undefined;
+        const socket = this.socket;
+        this.socket = undefined;
+        socket?.destroy();
+        this.sbsAircraft.clear();
+    }
+
+    private emit(payload: ADSBMessagePayload) {
+        for (const listener of this.listeners) {
+            listener(payload);
+        }
+    }
+
+    private async fetchAircraftJSON(): Promise<void> {
+        try {
+            const response = await fetch(this.url);
+            if (!response.ok) {
+                this.log(
+                    `Failed to fetch ADS-B receiver data: ${response.status} ${response.statusText}`,
+                );
+                return;
+            }
+            const data = await response.json();
+            if (!adsbDataSource.isPayload(data)) {
+                this.log("Unexpected aircraft.json from ADS-B receiver");
+                return;
+            }
+            this.emit({ now: data.now, aircraft: data.aircraft });
+        } catch (e) {
+            this.log("Error fetching ADS-B receiver data", e);
+        }
+    }
+
+    private connectSBS(): void {
+        const host = this.url.hostname;
+        const port = Number(this.url.port || 30003);
+        this.log(`Connecting to SBS stream at ${host}:${port}`);
+        const socket = net.createConnection({ host, port });
+        this.socket = socket;
+        socket.setEncoding("utf8");
+
+        let buffered = "";
+        socket.on("data", (chunk: string) => {
+            const lines = (buffered + chunk).split("\n");
+            // The last line isn't finished until the next newline
+            buffered = lines.pop() ?? "";
+            const now = Date.now();
+            for (const line of lines) {
+                const report = parseSBSLine(line);
+                if (report) {
+                    this.addSBSReport(report, now);
+                }
+            }
+        });
+
+        socket.on("error", (error) => {
+            this.log("Error from SBS stream:", error);
+        });
+
+        socket.on("close", () => {
+            // Closed on purpose, or replaced by a newer connection
+            if (this.socket !== socket) {
+                return;
+            }
+            this.log(
+                `SBS stream closed, reconnecting in ${RECONNECT_DELAY_MS / 1000}s`,
+            );
+            this.reconnectTimeoutId = setTimeout(
+                () => this.connectSBS(),
+                RECONNECT_DELAY_MS,
+            );
+        });
+    }
+
+    private addSBSReport(report: SBSReport, now: number) {
+        let aircraft = this.sbsAircraft.get(report.hex);
+        if (!aircraft) {
+            aircraft = {
+                report: { hex: report.hex },
+                lastHeard: now,
+                changed: true,
+            };
+            this.sbsAircraft.set(report.hex, aircraft);
+        }
+        for (const [key, value] of Object.entries(report)) {
+            if (value !== undefined) {
+                Object.assign(aircraft.report, { [key]: value });
+            }
+        }
+        aircraft.lastHeard = now;
+        if (report.lat !== undefined && report.lon !== undefined) {
+            aircraft.positionTime = now;
+        }
+        aircraft.changed = true;
+    }
+
+    /**
+     * Send on the aircraft that have changed since the last time, and forget
+     * the ones that have gone quiet
+     */
+    private broadcastSBSAircraft(): void {
+        const now = Date.now();
+        const changed: ReadsbAircraft[] = [];
+        for (const [hex, aircraft] of this.sbsAircraft) {
+            if (now - aircraft.lastHeard > SBS_AIRCRAFT_TIMEOUT_MS) {
+                this.sbsAircraft.delete(hex);
+                continue;
+            }
+            if (!aircraft.changed) {
+                continue;
+            }
+            aircraft.changed = false;
+            changed.push(toReadsbAircraft(aircraft, now));
+        }
+        if (changed.length > 0) {
+            this.emit({ now: now / 1000, aircraft: changed });
+        }
+    }
+}
+
+// One connection per receiver, shared by every region
+const connections = new Map<string, ADSBReceiverConnection>();
+
+const getADSBReceiverConnection = (url: string): ADSBReceiverConnection => {
+    let connection = connections.get(url);
+    if (!connection) {
+        connection = new ADSBReceiverConnection(new URL(url));
+        connections.set(url, connection);
+    }
+    return connection;
+};
+
+export class ADSBSource implements DataSource {
+    private config: DataSourceConfig;
+    private broadcast: BroadcastFunction<"ADSB">;
+    private log: Logger;
+    private connection: ADSBReceiverConnection;
+    private unsubscribe?: () => void;
+
+    constructor(
+        config: DataSourceConfig,
+        broadcast: <T extends MessageType>(
+            message: DataSourceMessage<T>,
+        ) => void,
+        log: Logger,
+        sourceConfig: ADSBConfig,
+    ) {
+        this.config = config;
+        this.connection = getADSBReceiverConnection(sourceConfig.url);
+        // Wrap the generic broadcast function with our specific type
+        this.broadcast = (message: DataSourceMessage<"ADSB">) => {
+            broadcast(message);
+        };
+        this.log = log;
+    }
+
+    private isInRegion(aircraft: ReadsbAircraft): boolean {
+        return (
+            aircraft.lat !== undefined &&
+            aircraft.lon !== undefined &&
+            isPointInBounds(aircraft.lat, aircraft.lon, this.config.bounds)
+        );
+    }
+
+    start(): void {
+        this.unsubscribe = this.connection.subscribe(({ now, aircraft }) => {
+            const inRegion = aircraft.filter((aircraft) =>
+                this.isInRegion(aircraft),
+            );
+            // Don't send every region a message each time any aircraft moves
+            if (inRegion.length > 0) {
+                this.broadcast({ t: "ADSB", msg: { now, aircraft: inRegion } });
+            }
+        });
+    }
+
+    stop(): void {
+        if (this.unsubscribe) {
+            this.log("Unsubscribing from ADS-B receiver");
+            this.unsubscribe();
+            this.unsubscribe = undefined;
+        }
+    }
+}
+
+const normalizeADSB = (
+    message: DataSourceMessage<"ADSB">,
+    receivedAt: number,
+): Vehicle[] => {
+    const { now, aircraft } = message.msg;
+    const vehicles: VehicleOfKind<"airplane">[] = [];
+    for (const state of aircraft) {
+        if (
+            !state.hex ||
+            state.lat === undefined ||
+            state.lon === undefined ||
+            (state.seen_pos ?? 0) > MAX_POSITION_AGE_SECONDS
+        ) {
+            continue;
+        }
+        const icao24 = state.hex.toLowerCase();
+        const onGround = state.alt_baro === "ground";
+        const altitudeFeet =
+            typeof state.alt_baro === "number"
+                ? state.alt_baro
+                : onGround
+                  ? undefined
+                  : state.alt_geom;
+        const verticalRate = state.baro_rate ?? state.geom_rate;
+        const callsign = state.flight?.trim();
+        vehicles.push({
+            id: getVehicleId("airplane", icao24),
+            kind: "airplane",
+            lat: state.lat,
+            lng: state.lon,
+            heading: state.track,
+            speed:
+                state.gs === undefined
+                    ? undefined
+                    : state.gs * KNOTS_TO_METERS_PER_SECOND,
+            lastSeen: receivedAt,
+            attributes: {
+                icao24,
+                callsign: callsign ? callsign : undefined,
+                positionTime: (now - (state.seen_pos ?? 0)) * 1000,
+                altitudeMeters:
+                    altitudeFeet === undefined
+                        ? undefined
+                        : altitudeFeet * FEET_TO_METERS,
+                geoAltitudeMeters:
+                    state.alt_geom === undefined
+                        ? undefined
+                        : state.alt_geom * FEET_TO_METERS,
+                onGround,
+                verticalRateMetersPerSecond:
+                    verticalRate === undefined
+                        ? undefined
+                        : (verticalRate * FEET_TO_METERS) / 60,
+                squawk: state.squawk,
+                spi: state.spi === undefined ? undefined : state.spi !== 0,
+                positionSource: state.type === "mlat" ? "MLAT" : "ADS-B",
+                category:
+                    state.category === undefined
+                        ? undefined
+                        : parseEmitterCategory(state.category),
+            },
+        });
+    }
+    return vehicles;
+};
+
+export const adsbDataSource: DataSourceDefinition<"ADSB"> = {
+    type: "ADSB",
+    envVars: ["ADSB_URL"],
+    isPayload: (payload): payload is ADSBMessagePayload => {
+        return (
+            isRecord(payload) &&
+            typeof payload.now === "number" &&
+            Array.isArray(payload.aircraft) &&
+            payload.aircraft.every(
+                (aircraft) =>
+                    isRecord(aircraft) && typeof aircraft.hex === "string",
+            )
+        );
+    },
+    normalize: normalizeADSB,
+    retime: (message, offsetMs) => ({
+        ...message,
+        msg: { ...message.msg, now: message.msg.now + offsetMs / 1000 },
+    }),
+    create: (config, broadcast, log, env) =>
+        new ADSBSource(config, broadcast, log, { url: env.ADSB_URL }),
+};
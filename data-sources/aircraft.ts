@@ -0,0 +1,18 @@
+/**
+ * Metadata about an individual aircraft, from the aircraft database
+ *
+ * Served by `/api/aircraft`, keyed by the aircraft's ICAO24 transponder
+ * address. Everything but the address can be missing from the database.
+ */
+export interface AircraftInfo {
+    // Lowercase hex, e.g. "a1b2c3"
+    icao24: string;
+    registration?: string;
+    // ICAO type designator, e.g. "B738"
+    typecode?: string;
+    manufacturer?: string;
+    model?: string;
+    operator?: string;
+    // Year the aircraft was built
+    year?: number;
+}
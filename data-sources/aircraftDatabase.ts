@@ -0,0 +1,202 @@
+/**
+ * Aircraft metadata (registration, type, operator, etc.) by ICAO24 address
+ *
+ * Loaded from a CSV or JSON export of an aircraft database, like OpenSky's
+ * https://opensky-network.org/datasets/metadata/aircraftDatabase.csv. Column
+ * names differ between databases, so each field is read from the first of its
+ * known column names that has a value.
+ */
+
+import * as fs from "fs";
+import * as readline from "readline";
+import type { AircraftInfo } from "./aircraft";
+import { isRecord } from "./dataSource";
+import type { Vehicle } from "./vehicles";
+
+export const DEFAULT_AIRCRAFT_DB_PATH = "./aircraft-db/aircraftDatabase.csv";
+
+const COLUMN_NAMES: Record<keyof AircraftInfo, string[]> = {
+    icao24: ["icao24", "icao", "hex"],
+    registration: ["registration", "reg", "r"],
+    typecode: ["typecode", "icaotype", "t"],
+    manufacturer: ["manufacturername", "manufacturer"],
+    model: ["model"],
+    operator: ["operator", "ownop", "owner"],
+    year: ["year", "built"],
+};
+
+/**
+ * Split a CSV line into fields, handling quoted fields and doubled quotes
+ * inside them
+ */
+const parseCSVLine = (line: string, quote: string): string[] => {
+    const fields: string[] = [];
+    let current = "";
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === quote) {
+            if (inQuotes && line[i + 1] === quote) {
+                current += quote;
+                i++;
+            } else {
+                inQuotes = !inQuotes;
+            }
+        } else if (char === "," && !inQuotes) {
+            fields.push(current);
+            current = "";
+        } else {
+            current += char;
+        }
+    }
+    fields.push(current);
+    return fields;
+};
+
+/**
+ * Build an aircraft from a database row, or null if it has no address
+ */
+const parseAircraft = (
+    getField: (names: string[]) => unknown,
+): AircraftInfo | null => {
+    const getString = (field: keyof AircraftInfo) => {
+        const value = getField(COLUMN_NAMES[field]);
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        const trimmed = String(value).trim();
+        return trimmed ? trimmed : undefined;
+    };
+    const icao24 = getString("icao24")?.toLowerCase();
+    if (!icao24) {
+        return null;
+    }
+    // Build dates like "1998-11-02" only need their year
+    const year = Number(getString("year")?.slice(0, 4));
+    return {
+        icao24,
+        registration: getString("registration"),
+        typecode: getString("typecode"),
+        manufacturer: getString("manufacturer"),
+        model: getString("model"),
+        operator: getString("operator"),
+        year: Number.isInteger(year) && year > 0 ? year : undefined,
+    };
+};
+
+export class AircraftDatabase {
+    private aircraft = new Map<string, AircraftInfo>();
+
+    /**
+     * Load aircraft from a CSV file, or a JSON file with either an array of
+     * aircraft or an object of them keyed by address. Aircraft already loaded
+     * are replaced if they're in the file too.
+     */
+    async load(filePath: string): Promise<void> {
+        if (filePath.endsWith(".json")) {
+            await this.loadJSON(filePath);
+        } else {
+            await this.loadCSV(filePath);
+        }
+    }
+
+    private async loadJSON(filePath: string): Promise<void> {
+        const data: unknown = JSON.parse(
+            await fs.promises.readFile(filePath, "utf-8"),
+        );
+        const entries: [string | null, unknown][] = Array.isArray(data)
+            ? data.map((row) => [null, row])
+            : isRecord(data)
+              ? Object.entries(data)
+              : [];
+        for (const [key, row] of entries) {
+            if (!isRecord(row)) {
+                continue;
+            }
+            const aircraft = parseAircraft((names) => {
+                const name = names.find(
+                    (name) => row[name] !== undefined && row[name] !== "",
+                );
+                if (name !== undefined) {
+                    return row[name];
+                }
+                // Databases keyed by address don't always repeat it in each row
+                return names === COLUMN_NAMES.icao24 ? key : undefined;
+            });
+            this.add(aircraft);
+        }
+    }
+
+    private async loadCSV(filePath: string): Promise<void> {
+        const lines = readline.createInterface({
+            input: fs.createReadStream(filePath),
+            crlfDelay: Infinity,
+        });
+        let columns: Map<string, number> | null = null;
+        // Some exports quote fields with ' instead of "
+        let quote = '"';
+        for await (const line of lines) {
+            if (line.trim() === "") {
+                continue;
+            }
+            if (columns === null) {
+                if (line.startsWith("'")) {
+                    quote = "'";
+                }
+                columns = new Map(
+                    parseCSVLine(line, quote).map((name, i) => [
+                        name.trim().toLowerCase(),
+                        i,
+                    ]),
+                );
+                continue;
+            }
+            const fields = parseCSVLine(line, quote);
+            const header = columns;
+            this.add(
+                parseAircraft((names) => {
+                    const name = names.find(
+                        (name) =>
+                            header.has(name) &&
+                            fields[header.get(name)!]?.trim(),
+                    );
+                    return name !== undefined
+                        ? fields[header.get(name)!]
+                        : undefined;
+                }),
+            );
+        }
+    }
+
+    private add(aircraft: AircraftInfo | null) {
+        if (aircraft !== null) {
+            this.aircraft.set(aircraft.icao24, aircraft);
+        }
+    }
+
+    lookup(icao24: string): AircraftInfo | undefined {
+        return this.aircraft.get(icao24.trim().toLowerCase());
+    }
+
+    /**
+     * Add the aircraft's type to an airplane, if it's in the database, so
+     * clients can draw it without looking it up themselves
+     */
+    enrich(vehicle: Vehicle): Vehicle {
+        if (vehicle.kind !== "airplane") {
+            return vehicle;
+        }
+        const typecode = this.lookup(vehicle.attributes.icao24)?.typecode;
+        if (typecode === undefined) {
+            return vehicle;
+        }
+        return {
+            ...vehicle,
+            attributes: { ...vehicle.attributes, typecode },
+        };
+    }
+
+    get size(): number {
+        return this.aircraft.size;
+    }
+}
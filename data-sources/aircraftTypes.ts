@@ -0,0 +1,111 @@
+/**
+ * Broad classes of aircraft, which get drawn differently on the map
+ *
+ * An aircraft's ICAO type designator is the most specific thing we can go on,
+ * so it's used when the aircraft database knows it. Otherwise we fall back to
+ * the ADS-B emitter category the aircraft broadcasts, which is mostly about
+ * weight. See: https://openskynetwork.github.io/opensky-api/rest.html
+ */
+
+export type AircraftClass =
+    | "helicopter"
+    | "wideBody"
+    | "jet"
+    | "turboprop"
+    | "light";
+
+// ADS-B emitter categories, as OpenSky numbers them
+const EMITTER_CATEGORY_CLASSES: Record<number, AircraftClass> = {
+    2: "light", // Light (< 15500 lbs)
+    3: "jet", // Small (15500 to 75000 lbs), mostly regional jets
+    4: "jet", // Large (75000 to 300000 lbs)
+    5: "jet", // High vortex large, e.g. a B757
+    6: "wideBody", // Heavy (> 300000 lbs)
+    7: "jet", // High performance
+    8: "helicopter", // Rotorcraft
+    9: "light", // Glider / sailplane
+    12: "light", // Ultralight / hang-glider / paraglider
+};
+
+// Common twin-aisle airliners
+const WIDE_BODY_TYPES = new Set(
+    (
+        "A306 A30B A310 A332 A333 A337 A338 A339 A342 A343 A345 A346 A359 " +
+        "A35K A388 B741 B742 B743 B744 B748 B74S B762 B763 B764 B772 B773 " +
+        "B778 B779 B77L B77W B788 B789 B78X DC10 IL96 MD11"
+    ).split(" "),
+);
+
+// Common helicopters, including the tour and news helicopters over Manhattan
+const HELICOPTER_TYPES = new Set(
+    (
+        "A109 A119 A139 A169 AS32 AS50 AS55 AS65 B06 B06T B212 B407 B412 " +
+        "B429 B505 EC20 EC25 EC30 EC35 EC45 EC55 EC75 H160 H47 H60 MD52 " +
+        "MD60 R22 R44 R66 S76 S92 UH1"
+    ).split(" "),
+);
+
+const TURBOPROP_TYPES = new Set(
+    (
+        "AT43 AT45 AT46 AT72 AT73 AT75 AT76 B190 BE20 BE30 BE9L C208 DH8A " +
+        "DH8B DH8C DH8D DHC6 E120 F50 JS31 JS32 JS41 P180 PC12 SB20 SF34 " +
+        "SW4 TBM7 TBM8 TBM9"
+    ).split(" "),
+);
+
+// Piston singles and twins you'd see at general aviation airports
+const LIGHT_TYPES = new Set(
+    (
+        "BE33 BE35 BE36 BE58 C150 C152 C162 C170 C172 C177 C180 C182 C195 " +
+        "C206 C210 C310 C340 DA20 DA40 DA42 DA62 M20P M20T P28A P28B P28R " +
+        "P32R PA18 PA24 PA32 PA34 PA44 PA46 SR20 SR22 SR2T"
+    ).split(" "),
+);
+
+// First emitter category of each set, as OpenSky numbers them
+const EMITTER_CATEGORY_SET_OFFSETS: Record<string, number> = {
+    A: 1,
+    B: 8,
+    C: 15,
+};
+
+/**
+ * Convert an emitter category as receivers write it, e.g. "A3", into OpenSky's
+ * numbering. Returns undefined for categories that don't mean anything.
+ */
+export const parseEmitterCategory = (code: string): number | undefined => {
+    const match = code.toUpperCase().match(/^([ABC])([1-7])$/);
+    if (!match) {
+        return undefined;
+    }
+    return EMITTER_CATEGORY_SET_OFFSETS[match[1]] + Number(match[2]);
+};
+
+/**
+ * Get the class of an aircraft from its type designator or emitter category,
+ * defaulting to a jet since that's most of what's in the air
+ */
+export const getAircraftClass = (
+    typecode?: string,
+    category?: number,
+): AircraftClass => {
+    const type = typecode?.toUpperCase();
+    if (type !== undefined) {
+        if (HELICOPTER_TYPES.has(type)) {
+            return "helicopter";
+        }
+        if (WIDE_BODY_TYPES.has(type)) {
+            return "wideBody";
+        }
+        if (TURBOPROP_TYPES.has(type)) {
+            return "turboprop";
+        }
+        if (LIGHT_TYPES.has(type)) {
+            return "light";
+        }
+    }
+    if (category !== undefined && category in EMITTER_CATEGORY_CLASSES) {
+        return EMITTER_CATEGORY_CLASSES[category];
+    }
+    return "jet";
+};
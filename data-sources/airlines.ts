@@ -0,0 +1,156 @@
+/**
+ * Airlines by ICAO designator, for decoding airline callsigns like "JBU123"
+ * into a flight number like "B6 123" without looking the route up
+ *
+ * Airline flights use the airline's three letter ICAO designator followed by
+ * the flight number as their callsign. Some airlines use callsigns that
+ * don't match their flight numbers (e.g. British Airways' "BAW12K"), so a
+ * looked up route's flight number is more reliable when there is one.
+ */
+
+import type { Airline } from "./flightRoute";
+
+// ICAO designator: [IATA designator, name]. Airlines you'd see around New
+// York, and the larger ones from elsewhere that fly there.
+const AIRLINE_DESIGNATORS: Record<string, [string, string]> = {
+    // United States
+    AAL: ["AA", "American Airlines"],
+    AAY: ["G4", "Allegiant Air"],
+    ASA: ["AS", "Alaska Airlines"],
+    ASH: ["YV", "Mesa Airlines"],
+    AWI: ["ZW", "Air Wisconsin"],
+    CPZ: ["C5", "CommutAir"],
+    DAL: ["DL", "Delta Air Lines"],
+    EDV: ["9E", "Endeavor Air"],
+    ENY: ["MQ", "Envoy Air"],
+    FFT: ["F9", "Frontier Airlines"],
+    GJS: ["G7", "GoJet Airlines"],
+    HAL: ["HA", "Hawaiian Airlines"],
+    JBU: ["B6", "JetBlue Airways"],
+    JIA: ["OH", "PSA Airlines"],
+    MXY: ["MX", "Breeze Airways"],
+    NKS: ["NK", "Spirit Airlines"],
+    PDT: ["PT", "Piedmont Airlines"],
+    QXE: ["QX", "Horizon Air"],
+    RPA: ["YX", "Republic Airways"],
+    SCX: ["SY", "Sun Country Airlines"],
+    SKW: ["OO", "SkyWest Airlines"],
+    SWA: ["WN", "Southwest Airlines"],
+    UAL: ["UA", "United Airlines"],
+    VXP: ["XP", "Avelo Airlines"],
+    // Cargo
+    ABX: ["GB", "ABX Air"],
+    CKS: ["K4", "Kalitta Air"],
+    FDX: ["FX", "FedEx"],
+    GTI: ["5Y", "Atlas Air"],
+    UPS: ["5X", "UPS Airlines"],
+    // Canada, Latin America and the Caribbean
+    ACA: ["AC", "Air Canada"],
+    AMX: ["AM", "Aeroméxico"],
+    ARG: ["AR", "Aerolíneas Argentinas"],
+    AVA: ["AV", "Avianca"],
+    AZU: ["AD", "Azul"],
+    BWA: ["BW", "Caribbean Airlines"],
+    CMP: ["CM", "Copa Airlines"],
+    JZA: ["QK", "Jazz"],
+    LAN: ["LA", "LATAM Airlines"],
+    POE: ["PD", "Porter Airlines"],
+    TAM: ["JJ", "LATAM Airlines Brasil"],
+    TSC: ["TS", "Air Transat"],
+    VOI: ["Y4", "Volaris"],
+    WJA: ["WS", "WestJet"],
+    // Europe
+    AFR: ["AF", "Air France"],
+    AUA: ["OS", "Austrian Airlines"],
+    BAW: ["BA", "British Airways"],
+    BEL: ["SN", "Brussels Airlines"],
+    CFG: ["DE", "Condor"],
+    DLH: ["LH", "Lufthansa"],
+    EIN: ["EI", "Aer Lingus"],
+    EWG: ["EW", "Eurowings"],
+    EZY: ["U2", "easyJet"],
+    FIN: ["AY", "Finnair"],
+    IBE: ["IB", "Iberia"],
+    ICE: ["FI", "Icelandair"],
+    ITY: ["AZ", "ITA Airways"],
+    KLM: ["KL", "KLM"],
+    LOT: ["LO", "LOT Polish Airlines"],
+    NAX: ["DY", "Norwegian"],
+    RYR: ["FR", "Ryanair"],
+    SAS: ["SK", "SAS"],
+    SWR: ["LX", "Swiss"],
+    TAP: ["TP", "TAP Air Portugal"],
+    THY: ["TK", "Turkish Airlines"],
+    VIR: ["VS", "Virgin Atlantic"],
+    VLG: ["VY", "Vueling"],
+    // Middle East and Africa
+    ELY: ["LY", "El Al"],
+    ETD: ["EY", "Etihad Airways"],
+    ETH: ["ET", "Ethiopian Airlines"],
+    MSR: ["MS", "EgyptAir"],
+    QTR: ["QR", "Qatar Airways"],
+    RAM: ["AT", "Royal Air Maroc"],
+    RJA: ["RJ", "Royal Jordanian"],
+    SAA: ["SA", "South African Airways"],
+    SVA: ["SV", "Saudia"],
+    UAE: ["EK", "Emirates"],
+    // Asia and Oceania
+    AAR: ["OZ", "Asiana Airlines"],
+    AIC: ["AI", "Air India"],
+    ANA: ["NH", "All Nippon Airways"],
+    ANZ: ["NZ", "Air New Zealand"],
+    CAL: ["CI", "China Airlines"],
+    CCA: ["CA", "Air China"],
+    CES: ["MU", "China Eastern Airlines"],
+    CPA: ["CX", "Cathay Pacific"],
+    CSN: ["CZ", "China Southern Airlines"],
+    EVA: ["BR", "EVA Air"],
+    JAL: ["JL", "Japan Airlines"],
+    KAL: ["KE", "Korean Air"],
+    PAL: ["PR", "Philippine Airlines"],
+    QFA: ["QF", "Qantas"],
+    SIA: ["SQ", "Singapore Airlines"],
+    THA: ["TG", "Thai Airways"],
+};
+
+// Designator, then a flight number with up to one letter after it. Anything
+// else is a registration (e.g. "N721MT") or a callsign we can't decode.
+const AIRLINE_CALLSIGN_PATTERN = /^([A-Z]{3})0*(\d{1,4}[A-Z]?)$/;
+
+export interface DecodedCallsign {
+    airline: Airline;
+    // e.g. "123" for "JBU123"
+    flightNumber: string;
+    // e.g. "B6 123"
+    iataFlightNumber: string;
+}
+
+/**
+ * Decode an airline flight's callsign, or return null if it isn't one or the
+ * airline isn't one we know
+ */
+export const decodeCallsign = (callsign: string): DecodedCallsign | null => {
+    const match = AIRLINE_CALLSIGN_PATTERN.exec(callsign.trim().toUpperCase());
+    if (!match) {
+        return null;
+    }
+    const [, icao, flightNumber] = match;
+    const designator = AIRLINE_DESIGNATORS[icao];
+    if (designator === undefined) {
+        return null;
+    }
+    const [iata, name] = designator;
+    return {
+        airline: { name, icao, iata },
+        flightNumber,
+        iataFlightNumber: `${iata} ${flightNumber}`,
+    };
+};
+
+/**
+ * Put a space between the airline and number of an IATA flight number, like
+ * `decodeCallsign` does, e.g. "DL402" to "DL 402"
+ */
+export const formatFlightNumber = (iataFlightNumber: string): string => {
+    return iataFlightNumber.replace(/^([A-Z0-9]{2})\s*(?=\d)/, "$1 ");
+};
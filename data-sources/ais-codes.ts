@@ -0,0 +1,118 @@
+/**
+ * Descriptions for the codes AIS messages use, so they can be shown to people
+ *
+ * See: https://www.navcen.uscg.gov/ais-class-a-reports
+ */
+
+const NAVIGATIONAL_STATUSES: Record<number, string> = {
+    0: "Under way using engine",
+    1: "At anchor",
+    2: "Not under command",
+    3: "Restricted manoeuverability",
+    4: "Constrained by her draught",
+    5: "Moored",
+    6: "Aground",
+    7: "Engaged in fishing",
+    8: "Under way sailing",
+    14: "AIS-SART active",
+};
+
+// Ship types 30-39 and 50-59 each have their own meaning, the rest are
+// grouped by their tens digit
+const SHIP_TYPES: Record<number, string> = {
+    30: "Fishing",
+    31: "Towing",
+    32: "Towing (large)",
+    33: "Dredging",
+    34: "Diving operations",
+    35: "Military",
+    36: "Sailing",
+    37: "Pleasure craft",
+    50: "Pilot vessel",
+    51: "Search and rescue",
+    52: "Tug",
+    53: "Port tender",
+    54: "Anti-pollution",
+    55: "Law enforcement",
+    58: "Medical transport",
+    59: "Noncombatant",
+};
+
+const SHIP_TYPE_GROUPS: Record<number, string> = {
+    2: "Wing in ground",
+    4: "High speed craft",
+    6: "Passenger",
+    7: "Cargo",
+    8: "Tanker",
+    9: "Other",
+};
+
+/**
+ * Get a description of an AIS navigational status, or undefined if it's
+ * reserved or not defined
+ */
+export const describeNavigationalStatus = (
+    status: number,
+): string | undefined => {
+    return NAVIGATIONAL_STATUSES[status];
+};
+
+/**
+ * Get a description of an AIS ship type, or undefined if it's reserved or
+ * not available
+ */
+export const describeShipType = (shipType: number): string | undefined => {
+    return SHIP_TYPES[shipType] ?? SHIP_TYPE_GROUPS[Math.floor(shipType / 10)];
+};
+
+// Broad kinds of vessel that get drawn differently on the map
+export type VesselCategory =
+    | "cargo"
+    | "tanker"
+    | "passenger"
+    | "highSpeed"
+    | "tug"
+    | "fishing"
+    | "pleasure"
+    | "sailing"
+    | "pilot"
+    | "lawEnforcement"
+    | "searchAndRescue"
+    | "military"
+    | "other";
+
+const SHIP_TYPE_CATEGORIES: Record<number, VesselCategory> = {
+    30: "fishing",
+    31: "tug",
+    32: "tug",
+    35: "military",
+    36: "sailing",
+    37: "pleasure",
+    50: "pilot",
+    51: "searchAndRescue",
+    52: "tug",
+    55: "lawEnforcement",
+};
+
+const SHIP_TYPE_GROUP_CATEGORIES: Record<number, VesselCategory> = {
+    4: "highSpeed",
+    6: "passenger",
+    7: "cargo",
+    8: "tanker",
+};
+
+/**
+ * Get the kind of vessel an AIS ship type is, or "other" if we don't know it
+ */
+export const getVesselCategory = (
+    shipType: number | undefined,
+): VesselCategory => {
+    if (shipType === undefined) {
+        return "other";
+    }
+    return (
+        SHIP_TYPE_CATEGORIES[shipType] ??
+        SHIP_TYPE_GROUP_CATEGORIES[Math.floor(shipType / 10)] ??
+        "other"
+    );
+};
@@ -0,0 +1,340 @@
+import * as dgram from "dgram";
+import * as net from "net";
+import {
+    type DataSource,
+    type DataSourceConfig,
+    type DataSourceDefinition,
+    type BroadcastFunction,
+    type Logger,
+    type DataSourceMessage,
+    type MessageType,
+} from "./dataSource";
+import { aisStreamDataSource, normalizeAISStream } from "./ais-stream";
+import type {
+    AISPositionReport,
+    AISShipStaticData,
+    AISStreamMessagePayload,
+} from "./messagePayloads";
+import {
+    AISSentenceDecoder,
+    type AISMessage,
+    type AISStaticMessage,
+} from "./nmea-ais";
+import { isPointInBounds } from "./regions";
+
+declare module "./dataSource" {
+    interface MessagePayloads {
+        // Converted into the same shape as AISStream's messages
+        AISReceiver: AISStreamMessagePayload;
+    }
+}
+
+const RECONNECT_DELAY_MS = 5 * 1000;
+// Vessels we haven't heard from in this long are forgotten
+const VESSEL_TIMEOUT_MS = 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+// Static data is held onto until the vessel's position is known, but only
+// this many messages of it
+const MAX_PENDING_STATIC_DATA = 4;
+
+export interface AISReceiverConfig {
+    // tcp://host:port to connect to a receiver, or udp://host:port to listen
+    // for the sentences it sends
+    url: string;
+}
+
+type ReceiverListener = (payload: AISStreamMessagePayload) => void;
+
+// What we've heard about a vessel so far, since each message only has some of
+// it and AISStream's shape wants the name and position on every message
+interface VesselState {
+    name?: string;
+    latitude?: number;
+    longitude?: number;
+    lastHeard: number;
+    pendingStaticData: AISStaticMessage[];
+}
+
+const toShipStaticData = (message: AISStaticMessage): AISShipStaticData => {
+    return {
+        UserID: message.mmsi,
+        Name: message.name ?? "",
+        CallSign: message.callSign ?? "",
+        ImoNumber: message.imo ?? 0,
+        Type: message.shipType ?? 0,
+        Destination: message.destination ?? "",
+        Dimension: message.dimension ?? { A: 0, B: 0, C: 0, D: 0 },
+        Eta: message.eta ?? { Month: 0, Day: 0, Hour: 24, Minute: 60 },
+    };
+};
+
+/**
+ * A connection to one AIS receiver, shared by every region reading from it.
+ * A UDP port can only be listened on once, and a receiver's vessels are all
+ * in one area anyway.
+ */
+class AISReceiverConnection {
+    private url: URL;
+    private log: Logger;
+    private listeners = new Set<ReceiverListener>();
+    private decoder = new AISSentenceDecoder();
+    private vessels = new Map<number, VesselState>();
+    private socket?: net.Socket;
+    private udpSocket?: dgram.Socket;
+    private reconnectTimeoutId?: NodeJS.Timeout;
+    private pruneIntervalId?: NodeJS.Timeout;
+    private buffered = "";
+
+    constructor(url: URL) {
+        this.url = url;
+        // The connection is shared between regions, so it isn't logged as any
+        // one region's
+        this.log = (...args) => console.log("AIS receiver: ", ...args);
+    }
+
+    /**
+     * Start getting vessel updates, connecting to the receiver if nobody else
+     * is. Returns a function that stops them, and disconnects once nobody's
+     * left.
+     */
+    subscribe(listener: ReceiverListener): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) {
+            this.open();
+        }
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.close();
+            }
+        };
+    }
+
+    private open() {
+        this.pruneIntervalId = setInterval(() => {
+            const now = Date.now();
+            for (const [mmsi, vessel] of this.vessels) {
+                if (now - vessel.lastHeard > VESSEL_TIMEOUT_MS) {
+                    this.vessels.delete(mmsi);
+                }
+            }
+        }, PRUNE_INTERVAL_MS);
+        if (this.url.protocol === "udp:") {
+            this.listenUDP();
+        } else {
+            this.connectTCP();
+        }
+    }
+
+    private close() {
+        this.log("Closing connection");
+        clearInterval(this.pruneIntervalId);
+        clearTimeout(this.reconnectTimeoutId);
+        this.pruneIntervalId = undefined;
+        this.reconnectTimeoutId = undefined;
+        const socket = this.socket;
+        this.socket = undefined;
+        socket?.destroy();
+        this.udpSocket?.close();
+        this.udpSocket = undefined;
+        this.vessels.clear();
+        this.buffered = "";
+    }
+
+    private connectTCP() {
+        const host = this.url.hostname;
+        const port = Number(this.url.port);
+        this.log(`Connecting to ${host}:${port}`);
+        const socket = net.createConnection({ host, port });
+        this.socket = socket;
+        socket.setEncoding("ascii");
+        socket.on("data", (chunk: string) => this.addData(chunk));
+        socket.on("error", (error) => {
+            this.log("Error from receiver:", error);
+        });
+        socket.on("close", () => {
+            // Closed on purpose, or replaced by a newer connection
+            if (this.socket !== socket) {
+                return;
+            }
+            this.log(
+                `Connection closed, reconnecting in ${RECONNECT_DELAY_MS / 1000}s`,
+            );
+            this.buffered = "";
+            this.reconnectTimeoutId = setTimeout(
+                () => this.connectTCP(),
+                RECONNECT_DELAY_MS,
+            );
+        });
+    }
+
+    private listenUDP() {
+        const host = this.url.hostname || "0.0.0.0";
+        const port = Number(this.url.port);
+        this.log(`Listening on UDP ${host}:${port}`);
+        const socket = dgram.createSocket("udp4");
+        this.udpSocket = socket;
+        socket.on("message", (datagram) => {
+            // Each datagram has whole sentences
+            this.addData(datagram.toString("ascii") + "\n");
+        });
+        socket.on("error", (error) => {
+            this.log("Error from UDP socket:", error);
+        });
+        socket.bind(port, host);
+    }
+
+    private addData(chunk: string) {
+        const lines = (this.buffered + chunk).split("\n");
+        // The last line isn't finished until the next newline
+        this.buffered = lines.pop() ?? "";
+        const now = Date.now();
+        for (const line of lines) {
+            for (const message of this.decoder.add(line, now)) {
+                this.addMessage(message, now);
+            }
+        }
+    }
+
+    private addMessage(message: AISMessage, now: number) {
+        let vessel = this.vessels.get(message.mmsi);
+        if (!vessel) {
+            vessel = { lastHeard: now, pendingStaticData: [] };
+            this.vessels.set(message.mmsi, vessel);
+        }
+        vessel.lastHeard = now;
+
+        if (message.kind === "static") {
+            vessel.name = message.name || vessel.name;
+            if (vessel.latitude === undefined) {
+                vessel.pendingStaticData = [
+                    ...vessel.pendingStaticData,
+                    message,
+                ].slice(-MAX_PENDING_STATIC_DATA);
+                return;
+            }
+            this.emit(
+                message.mmsi,
+                vessel,
+                "ShipStaticData",
+                toShipStaticData(message),
+            );
+            return;
+        }
+
+        vessel.latitude = message.latitude;
+        vessel.longitude = message.longitude;
+        const reportType = message.classB
+            ? "StandardClassBPositionReport"
+            : "PositionReport";
+        const report: AISPositionReport = {
+            UserID: message.mmsi,
+            Latitude: message.latitude,
+            Longitude: message.longitude,
+            Cog: message.cog,
+            Sog: message.sog,
+            TrueHeading: message.trueHeading,
+            NavigationalStatus: message.navigationalStatus,
+        };
+        this.emit(message.mmsi, vessel, reportType, report);
+        // Now that the vessel can be placed, send what we'd held back
+        for (const pending of vessel.pendingStaticData) {
+            this.emit(
+                message.mmsi,
+                vessel,
+                "ShipStaticData",
+                toShipStaticData(pending),
+            );
+        }
+        vessel.pendingStaticData = [];
+    }
+
+    private emit(
+        mmsi: number,
+        vessel: VesselState,
+        messageType: string,
+        report: AISPositionReport | AISShipStaticData,
+    ) {
+        const payload: AISStreamMessagePayload = {
+            MessageType: messageType,
+            MetaData: {
+                MMSI: mmsi,
+                ShipName: vessel.name ?? "",
+                latitude: vessel.latitude!,
+                longitude: vessel.longitude!,
+                time_utc: new Date(vessel.lastHeard).toISOString(),
+            },
+            Message: { [messageType]: report },
+        };
+        for (const listener of this.listeners) {
+            listener(payload);
+        }
+    }
+}
+
+// One connection per receiver, shared by every region
+const connections = new Map<string, AISReceiverConnection>();
+
+const getAISReceiverConnection = (url: string): AISReceiverConnection => {
+    let connection = connections.get(url);
+    if (!connection) {
+        connection = new AISReceiverConnection(new URL(url));
+        connections.set(url, connection);
+    }
+    return connection;
+};
+
+export class AISReceiverSource implements DataSource {
+    private config: DataSourceConfig;
+    private broadcast: BroadcastFunction<"AISReceiver">;
+    private log: Logger;
+    private connection: AISReceiverConnection;
+    private unsubscribe?: () => void;
+
+    constructor(
+        config: DataSourceConfig,
+        broadcast: <T extends MessageType>(
+            message: DataSourceMessage<T>,
+        ) => void,
+        log: Logger,
+        sourceConfig: AISReceiverConfig,
+    ) {
+        this.config = config;
+        this.connection = getAISReceiverConnection(sourceConfig.url);
+        // Wrap the generic broadcast function with our specific type
+        this.broadcast = (message: DataSourceMessage<"AISReceiver">) => {
+            broadcast(message);
+        };
+        this.log = log;
+    }
+
+    start(): void {
+        this.unsubscribe = this.connection.subscribe((payload) => {
+            const { latitude, longitude } = payload.MetaData;
+            if (isPointInBounds(latitude, longitude, this.config.bounds)) {
+                this.broadcast({ t: "AISReceiver", msg: payload });
+            }
+        });
+    }
+
+    stop(): void {
+        if (this.unsubscribe) {
+            this.log("Unsubscribing from AIS receiver");
+            this.unsubscribe();
+            this.unsubscribe = undefined;
+        }
+    }
+}
+
+export const aisReceiverDataSource: DataSourceDefinition<"AISReceiver"> = {
+    type: "AISReceiver",
+    envVars: ["AIS_RECEIVER_URL"],
+    isPayload: (payload): payload is AISStreamMessagePayload =>
+        aisStreamDataSource.isPayload(payload),
+    normalize: (message, receivedAt) =>
+        normalizeAISStream({ t: "AISStream", msg: message.msg }, receivedAt),
+    create: (config, broadcast, log, env) =>
+        new AISReceiverSource(config, broadcast, log, {
+            url: env.AIS_RECEIVER_URL,
+        }),
+};
@@ -1,15 +1,51 @@
 import WebSocket from "ws";
-import type {
-    DataSource,
-    DataSourceConfig,
-    BroadcastFunction,
-    Logger,
-    DataSourceMessage,
-    MessageType,
+import {
+    isRecord,
+    type DataSource,
+    type DataSourceConfig,
+    type DataSourceDefinition,
+    type BroadcastFunction,
+    type Logger,
+    type DataSourceMessage,
+    type MessageType,
 } from "./dataSource";
+import type {
+    AISPositionReport,
+    AISShipStaticData,
+    AISStreamMessagePayload,
+} from "./messagePayloads";
+import {
+    getVehicleId,
+    type BoatAttributes,
+    type Vehicle,
+    type VehicleOfKind,
+} from "./vehicles";
+
+declare module "./dataSource" {
+    interface MessagePayloads {
+        AISStream: AISStreamMessagePayload;
+    }
+}
+
+export const DEFAULT_AISSTREAM_URL = "wss://stream.aisstream.io/v0/stream";
+
+// Class B position reports come from smaller vessels, e.g. pleasure craft
+const POSITION_REPORT_TYPES = [
+    "PositionReport",
+    "StandardClassBPositionReport",
+] as const;
+
+const KNOTS_TO_METERS_PER_SECOND = 0.514444;
+
+// Values AIS uses to mean a field isn't available
+const HEADING_NOT_AVAILABLE = 511;
+const COURSE_NOT_AVAILABLE = 360;
+const SPEED_NOT_AVAILABLE = 102.3;
+const NAVIGATIONAL_STATUS_NOT_DEFINED = 15;
 
 export interface AISStreamConfig {
     apiKey: string;
+    url: string;
 }
 
 export class AISStreamSource implements DataSource {
@@ -17,11 +53,14 @@ export class AISStreamSource implements DataSource {
     private broadcast: BroadcastFunction<"AISStream">;
     private log: Logger;
     private apiKey: string;
+    private url: string;
     private connection?: WebSocket;
 
     constructor(
         config: DataSourceConfig,
-        broadcast: <T extends MessageType>(message: DataSourceMessage<T>) => void,
+        broadcast: <T extends MessageType>(
+            message: DataSourceMessage<T>,
+        ) => void,
         log: Logger,
         sourceConfig: AISStreamConfig,
     ) {
@@ -32,6 +71,7 @@ export class AISStreamSource implements DataSource {
         };
         this.log = log;
         this.apiKey = sourceConfig.apiKey;
+        this.url = sourceConfig.url;
     }
 
     start(): void {
@@ -41,7 +81,7 @@ export class AISStreamSource implements DataSource {
         const apiKey = this.apiKey;
 
         log("Opening connection to AISStream");
-        this.connection = new WebSocket("wss://stream.aisstream.io/v0/stream");
+        this.connection = new WebSocket(this.url);
 
         this.connection.on("open", () => {
             log("Opened connection to AISStream");
@@ -54,7 +94,10 @@ export class AISStreamSource implements DataSource {
                             [minLat, maxLng],
                         ],
                     ],
-                    FilterMessageTypes: ["PositionReport"],
+                    FilterMessageTypes: [
+                        ...POSITION_REPORT_TYPES,
+                        "ShipStaticData",
+                    ],
                 }),
             );
         });
@@ -64,9 +107,16 @@ export class AISStreamSource implements DataSource {
         });
 
         this.connection.on("message", (e) => {
+            let payload: AISStreamMessagePayload;
+            try {
+                payload = JSON.parse(e.toString());
+            } catch (error) {
+                this.log("Ignoring unparseable AISStream message", error);
+                return;
+            }
             const message: DataSourceMessage<"AISStream"> = {
                 t: "AISStream",
-                msg: JSON.parse(e.toString()),
+                msg: payload,
             };
             broadcast(message);
         });
@@ -81,3 +131,132 @@ export class AISStreamSource implements DataSource {
     }
 }
 
+// The details one AIS message has about a vessel
+type BoatReport = Partial<Pick<VehicleOfKind<"boat">, "heading" | "speed">> &
+    Partial<BoatAttributes>;
+
+// AIS pads text fields out to a fixed length with spaces or "@"
+const trimAISText = (text: string | undefined): string | undefined => {
+    const trimmed = text?.replace(/[@\s]+$/, "").trim();
+    return trimmed ? trimmed : undefined;
+};
+
+const parsePositionReport = (report: AISPositionReport): BoatReport => {
+    const trueHeading =
+        report.TrueHeading !== HEADING_NOT_AVAILABLE
+            ? report.TrueHeading
+            : undefined;
+    const courseOverGround =
+        report.Cog < COURSE_NOT_AVAILABLE ? report.Cog : undefined;
+    const isMoving = report.Sog !== SPEED_NOT_AVAILABLE && report.Sog > 0;
+    return {
+        // A moored vessel can still report a course, but it's meaningless
+        heading: trueHeading ?? (isMoving ? courseOverGround : undefined),
+        speed:
+            report.Sog !== SPEED_NOT_AVAILABLE
+                ? report.Sog * KNOTS_TO_METERS_PER_SECOND
+                : undefined,
+        trueHeading,
+        courseOverGround,
+        navigationalStatus:
+            report.NavigationalStatus !== undefined &&
+            report.NavigationalStatus !== NAVIGATIONAL_STATUS_NOT_DEFINED
+                ? report.NavigationalStatus
+                : undefined,
+    };
+};
+
+const parseShipStaticData = (data: AISShipStaticData): BoatReport => {
+    const { Dimension, Eta } = data;
+    const lengthMeters = Dimension ? Dimension.A + Dimension.B : 0;
+    const beamMeters = Dimension ? Dimension.C + Dimension.D : 0;
+    const hasEta =
+        Eta !== undefined &&
+        Eta.Month > 0 &&
+        Eta.Day > 0 &&
+        Eta.Hour < 24 &&
+        Eta.Minute < 60;
+    return {
+        shipType: data.Type > 0 ? data.Type : undefined,
+        imo: data.ImoNumber > 0 ? data.ImoNumber : undefined,
+        callSign: trimAISText(data.CallSign),
+        destination: trimAISText(data.Destination),
+        eta: hasEta
+            ? {
+                  month: Eta.Month,
+                  day: Eta.Day,
+                  hour: Eta.Hour,
+                  minute: Eta.Minute,
+              }
+            : undefined,
+        lengthMeters: lengthMeters > 0 ? lengthMeters : undefined,
+        beamMeters: beamMeters > 0 ? beamMeters : undefined,
+    };
+};
+
+/**
+ * Normalize an AIS message into a report of the vessel it's about. Each kind
+ * of message only covers some of a vessel's details, so the store merges them.
+ */
+export const normalizeAISStream = (
+    message: DataSourceMessage<"AISStream">,
+    receivedAt: number,
+): Vehicle[] => {
+    const payload = message.msg;
+    const { MMSI, ShipName, latitude, longitude } = payload.MetaData;
+    if (!MMSI) {
+        return [];
+    }
+
+    let details: BoatReport;
+    const positionReportType = POSITION_REPORT_TYPES.find(
+        (type) => type === payload.MessageType,
+    );
+    if (positionReportType !== undefined) {
+        const report = payload.Message?.[positionReportType];
+        details = report ? parsePositionReport(report) : {};
+    } else if (payload.MessageType === "ShipStaticData") {
+        const data = payload.Message?.ShipStaticData;
+        details = data ? parseShipStaticData(data) : {};
+    } else {
+        return [];
+    }
+
+    const { heading, speed, ...attributes } = details;
+    return [
+        {
+            id: getVehicleId("boat", String(MMSI)),
+            kind: "boat",
+            lat: latitude,
+            lng: longitude,
+            heading,
+            speed,
+            lastSeen: receivedAt,
+            attributes: {
+                ...attributes,
+                mmsi: MMSI,
+                // Left out when blank, so it doesn't erase a known name
+                shipName: trimAISText(ShipName),
+            },
+        },
+    ];
+};
+
+export const aisStreamDataSource: DataSourceDefinition<"AISStream"> = {
+    type: "AISStream",
+    envVars: ["AISSTREAM_API_KEY"],
+    optionalEnvVars: ["AISSTREAM_URL"],
+    isPayload: (payload): payload is AISStreamMessagePayload => {
+        return (
+            isRecord(payload) &&
+            typeof payload.MessageType === "string" &&
+            isRecord(payload.MetaData)
+        );
+    },
+    normalize: normalizeAISStream,
+    create: (config, broadcast, log, env) =>
+        new AISStreamSource(config, broadcast, log, {
+            apiKey: env.AISSTREAM_API_KEY,
+            url: env.AISSTREAM_URL ?? DEFAULT_AISSTREAM_URL,
+        }),
+};
@@ -1,24 +1,130 @@
-import type {
-    DataSource,
-    DataSourceConfig,
-    BroadcastFunction,
-    Logger,
-    DataSourceMessage,
-    MessageType,
+import {
+    isRecord,
+    type DataSource,
+    type DataSourceConfig,
+    type DataSourceDefinition,
+    type BroadcastFunction,
+    type Logger,
+    type DataSourceMessage,
+    type MessageType,
 } from "./dataSource";
+import type { AmtrakerMessagePayload } from "./messagePayloads";
+import { isPointInBounds } from "./regions";
+import { getVehicleId, type Vehicle, type VehicleOfKind } from "./vehicles";
+
+declare module "./dataSource" {
+    interface MessagePayloads {
+        Amtraker: AmtrakerMessagePayload;
+    }
+}
+
+export const DEFAULT_AMTRAKER_BASE_URL = "https://api-v3.amtraker.com/v3";
+
+export interface AmtrakerConfig {
+    baseUrl: string;
+}
+
+// Amtraker updates its trains every minute or so
+const POLL_INTERVAL_MS = 60 * 1000;
+
+type TrainsListener = (trains: AmtrakerMessagePayload) => void;
+
+/**
+ * Polls every Amtrak train from Amtraker. The feed covers the whole network,
+ * so one poller is shared by every region, and each region picks out the
+ * trains inside it.
+ */
+class AmtrakerPoller {
+    private baseUrl: string;
+    private log: Logger;
+    private listeners = new Set<TrainsListener>();
+    private intervalId?: NodeJS.Timeout;
+    // Trains from the last poll, so that a new region doesn't have to wait
+    // for the next one
+    private lastTrains?: AmtrakerMessagePayload;
+
+    constructor(baseUrl: string) {
+        this.baseUrl = baseUrl;
+        // Polls are shared between regions, so they aren't logged as any one
+        // region's
+        this.log = (...args) => console.log("Amtraker: ", ...args);
+    }
+
+    /**
+     * Start getting every train each time they're polled. Returns a function
+     * that stops them, and stops polling once nobody's left.
+     */
+    subscribe(listener: TrainsListener): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) {
+            this.fetchData();
+            this.intervalId = setInterval(() => {
+                this.fetchData();
+            }, POLL_INTERVAL_MS);
+        } else if (this.lastTrains) {
+            listener(this.lastTrains);
+        }
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.log("Stopping Amtraker polling");
+                clearInterval(this.intervalId);
+                this.intervalId = undefined;
+                this.lastTrains = undefined;
+            }
+        };
+    }
+
+    private async fetchData(): Promise<void> {
+        this.log("fetching Amtraker data");
+        try {
+            const response = await fetch(`${this.baseUrl}/trains`);
+            const data = await response.json();
+            if (!amtrakerDataSource.isPayload(data)) {
+                this.log("Unexpected response from Amtraker");
+                return;
+            }
+            // Everyone left while we were fetching
+            if (this.listeners.size === 0) {
+                return;
+            }
+            this.lastTrains = data;
+            for (const listener of this.listeners) {
+                listener(data);
+            }
+        } catch (e) {
+            this.log("Error fetching Amtraker data", e);
+        }
+    }
+}
+
+// One poller per upstream, shared by every region
+const pollers = new Map<string, AmtrakerPoller>();
+
+const getAmtrakerPoller = (baseUrl: string): AmtrakerPoller => {
+    let poller = pollers.get(baseUrl);
+    if (!poller) {
+        poller = new AmtrakerPoller(baseUrl);
+        pollers.set(baseUrl, poller);
+    }
+    return poller;
+};
 
 export class AmtrakerSource implements DataSource {
     private config: DataSourceConfig;
     private broadcast: BroadcastFunction<"Amtraker">;
     private log: Logger;
-    private intervalId?: NodeJS.Timeout;
+    private poller: AmtrakerPoller;
+    private unsubscribe?: () => void;
 
     constructor(
         config: DataSourceConfig,
         broadcast: <T extends MessageType>(message: DataSourceMessage<T>) => void,
         log: Logger,
+        sourceConfig: AmtrakerConfig,
     ) {
         this.config = config;
+        this.poller = getAmtrakerPoller(sourceConfig.baseUrl);
         // Wrap the generic broadcast function with our specific type
         this.broadcast = (message: DataSourceMessage<"Amtraker">) => {
             broadcast(message);
@@ -26,58 +132,103 @@ export class AmtrakerSource implements DataSource {
         this.log = log;
     }
 
-    private async fetchData(): Promise<void> {
-        const { maxLat, minLat, maxLng, minLng } = this.config.bounds;
-
-        this.log("fetching Amtraker data");
-        try {
-            const response = await fetch(
-                "https://api-v3.amtraker.com/v3/trains",
-            );
-            const data = await response.json();
-
-            const filteredData: Record<string, any> = {};
-            Object.keys(data).forEach((key) => {
-                // This is an array of each train.
-                const trainRoute = data[key].filter((train: any) => {
-                    return (
-                        train.lat >= minLat &&
-                        train.lat <= maxLat &&
-                        train.lon >= minLng &&
-                        train.lon <= maxLng
-                    );
-                });
-                if (trainRoute.length > 0) {
-                    filteredData[key] = trainRoute;
+    start(): void {
+        this.unsubscribe = this.poller.subscribe((trains) => {
+            const { bounds } = this.config;
+            const filteredData: AmtrakerMessagePayload = {};
+            for (const [routeName, trainRoute] of Object.entries(trains)) {
+                const inRegion = trainRoute.filter((train) =>
+                    isPointInBounds(train.lat, train.lon, bounds),
+                );
+                if (inRegion.length > 0) {
+                    filteredData[routeName] = inRegion;
                 }
-            });
+            }
+            this.broadcast({ t: "Amtraker", msg: filteredData });
+        });
+    }
 
-            const message: DataSourceMessage<"Amtraker"> = {
-                t: "Amtraker",
-                msg: filteredData,
-            };
-            this.broadcast(message);
-        } catch (e) {
-            this.log("Error fetching Amtraker data", e);
+    stop(): void {
+        if (this.unsubscribe) {
+            this.log("Unsubscribing from Amtraker");
+            this.unsubscribe();
+            this.unsubscribe = undefined;
         }
     }
+}
 
-    start(): void {
-        // Fetch immediately
-        this.fetchData();
+const MPH_TO_METERS_PER_SECOND = 0.44704;
 
-        // Then fetch every minute
-        this.intervalId = setInterval(() => {
-            this.fetchData();
-        }, 60 * 1000);
-    }
+// Amtraker only reports which way trains are headed as a compass direction
+const COMPASS_HEADINGS: Record<string, number> = {
+    N: 0,
+    NE: 45,
+    E: 90,
+    SE: 135,
+    S: 180,
+    SW: 225,
+    W: 270,
+    NW: 315,
+};
 
-    stop(): void {
-        if (this.intervalId) {
-            this.log("Stopping Amtraker polling");
-            clearInterval(this.intervalId);
-            this.intervalId = undefined;
+const normalizeAmtraker = (
+    message: DataSourceMessage<"Amtraker">,
+    receivedAt: number,
+): Vehicle[] => {
+    const vehicles: VehicleOfKind<"train">[] = [];
+    for (const trainRoute of Object.values(message.msg)) {
+        for (const train of trainRoute) {
+            vehicles.push({
+                id: getVehicleId("train", train.trainID),
+                kind: "train",
+                lat: train.lat,
+                lng: train.lon,
+                heading:
+                    train.heading !== undefined
+                        ? COMPASS_HEADINGS[train.heading]
+                        : undefined,
+                speed:
+                    train.velocity != null
+                        ? train.velocity * MPH_TO_METERS_PER_SECOND
+                        : undefined,
+                lastSeen: receivedAt,
+                attributes: {
+                    trainID: train.trainID,
+                    trainNum: train.trainNum,
+                    routeName: train.routeName,
+                    trainTimely: train.trainTimely,
+                    stations: train.stations,
+                },
+            });
         }
     }
-}
+    return vehicles;
+};
 
+export const amtrakerDataSource: DataSourceDefinition<"Amtraker"> = {
+    type: "Amtraker",
+    envVars: [],
+    optionalEnvVars: ["AMTRAKER_BASE_URL"],
+    // Amtrak runs across the US, plus up to Vancouver, Toronto and Montreal
+    coverage: {
+        minLat: 25,
+        maxLat: 50,
+        minLng: -125,
+        maxLng: -67,
+    },
+    isPayload: (payload): payload is AmtrakerMessagePayload => {
+        return (
+            isRecord(payload) &&
+            Object.values(payload).every(
+                (trainRoute) =>
+                    Array.isArray(trainRoute) &&
+                    trainRoute.every((train) => isRecord(train)),
+            )
+        );
+    },
+    normalize: normalizeAmtraker,
+    create: (config, broadcast, log, env) =>
+        new AmtrakerSource(config, broadcast, log, {
+            baseUrl: env.AMTRAKER_BASE_URL ?? DEFAULT_AMTRAKER_BASE_URL,
+        }),
+};
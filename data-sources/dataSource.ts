@@ -1,19 +1,19 @@
-import type {
-    AISStreamMessagePayload,
-    AmtrakerMessagePayload,
-    MTAMessagePayload,
-    OpenSkyMessagePayload,
-} from "./messagePayloads";
-
-export type MessageType = "AISStream" | "OpenSky" | "Amtraker" | "MTA";
-
-// Message payload types for each datasource
-export type MessagePayload<T extends MessageType> = 
-    T extends "AISStream" ? AISStreamMessagePayload :
-    T extends "OpenSky" ? OpenSkyMessagePayload :
-    T extends "Amtraker" ? AmtrakerMessagePayload :
-    T extends "MTA" ? MTAMessagePayload :
-    never;
+import type { Bounds } from "./regions";
+import type { Vehicle } from "./vehicles";
+
+/**
+ * Payload type of each data source's messages, keyed by message type
+ *
+ * This starts out empty. Each data source adds its own entry by redeclaring
+ * the interface in its module, so that adding a source doesn't mean editing a
+ * list of every message type here.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface MessagePayloads {}
+
+export type MessageType = keyof MessagePayloads;
+
+export type MessagePayload<T extends MessageType> = MessagePayloads[T];
 
 export interface DataSourceMessage<T extends MessageType> {
     t: T;
@@ -49,3 +49,43 @@ export interface DataSource {
     stop(): void;
 }
 
+/**
+ * Everything the server needs to know to run a data source
+ */
+export interface DataSourceDefinition<T extends MessageType> {
+    type: T;
+    // Environment variables the source needs. It isn't started if any are missing.
+    envVars: string[];
+    // Environment variables the source can be configured with, e.g. to point it
+    // at a different upstream. They're only passed along if they're set.
+    optionalEnvVars?: string[];
+    // Area the source has data for. Sources without one cover the whole world.
+    coverage?: Bounds;
+    // Checks that a payload has the shape this source sends
+    isPayload: (payload: unknown) => payload is MessagePayload<T>;
+    // Converts a message from this source into vehicle records
+    normalize: (message: DataSourceMessage<T>, receivedAt: number) => Vehicle[];
+    // Shifts the timestamps inside a message by `offsetMs`, so that a replayed
+    // recording looks like it's happening now. Only needed by sources whose
+    // payloads have timestamps.
+    retime?: (
+        message: DataSourceMessage<T>,
+        offsetMs: number,
+    ) => DataSourceMessage<T>;
+    create: (
+        config: DataSourceConfig,
+        broadcast: <U extends MessageType>(
+            message: DataSourceMessage<U>,
+        ) => void,
+        log: Logger,
+        env: Record<string, string>,
+    ) => DataSource;
+}
+
+export type AnyDataSourceDefinition = {
+    [T in MessageType]: DataSourceDefinition<T>;
+}[MessageType];
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+};
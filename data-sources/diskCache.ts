@@ -0,0 +1,207 @@
+/**
+ * A cache that's kept on disk, so that what the server has looked up survives
+ * a restart
+ *
+ * Each cache is an NDJSON file in the cache directory, with one
+ * `DiskCacheLine` per line. Entries are appended as they're set, and a later
+ * line for a key replaces the earlier ones. The file is rewritten without the
+ * replaced and expired lines when it's loaded, and every so often after that
+ * if it's grown. Like `TTLCache`, only so many entries are kept, and the
+ * least recently used ones are dropped to make room.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { isRecord } from "./dataSource";
+
+export const DEFAULT_CACHE_DIR = "./cache";
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const COMPACT_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface DiskCacheEntry<V> {
+    value: V;
+    // Unix timestamp (ms) after which the entry is ignored
+    expiresAt: number;
+}
+
+interface DiskCacheLine<V> extends DiskCacheEntry<V> {
+    key: string;
+}
+
+const isDiskCacheLine = (value: unknown): value is DiskCacheLine<unknown> => {
+    return (
+        isRecord(value) &&
+        typeof value.key === "string" &&
+        typeof value.expiresAt === "number" &&
+        "value" in value
+    );
+};
+
+export class DiskCache<V> {
+    private filePath: string;
+    private maxEntries: number;
+    private log: (...args: unknown[]) => void;
+    private entries = new Map<string, DiskCacheEntry<V>>();
+    private stream?: fs.WriteStream;
+    private compactIntervalId?: NodeJS.Timeout;
+    // Lines in the file, including ones that have since been replaced
+    private fileLines = 0;
+    // Set once writing to disk has failed, after which entries are only kept
+    // in memory
+    private disabled = false;
+
+    constructor(
+        cacheDir: string,
+        name: string,
+        maxEntries: number = DEFAULT_MAX_ENTRIES,
+    ) {
+        this.filePath = path.join(cacheDir, `${name}.ndjson`);
+        this.maxEntries = maxEntries;
+        this.log = (...args) => console.log(`Disk cache ${name}: `, ...args);
+    }
+
+    /**
+     * Read the entries that haven't expired from disk. Until this is done,
+     * entries are only kept in memory.
+     */
+    async load(now: number = Date.now()): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+            recursive: true,
+        });
+        const loaded = new Map<string, DiskCacheEntry<V>>();
+        if (fs.existsSync(this.filePath)) {
+            const contents = await fs.promises.readFile(this.filePath, "utf-8");
+            for (const line of contents.split("\n")) {
+                if (line.trim() === "") {
+                    continue;
+                }
+                let parsed: unknown;
+                try {
+                    parsed = JSON.parse(line);
+                } catch {
+                    // The server may have stopped partway through a line
+                    continue;
+                }
+                if (!isDiskCacheLine(parsed)) {
+                    continue;
+                }
+                // Re-inserted, so the most recently set entries end up last
+                loaded.delete(parsed.key);
+                if (parsed.expiresAt > now) {
+                    loaded.set(parsed.key, {
+                        value: parsed.value as V,
+                        expiresAt: parsed.expiresAt,
+                    });
+                }
+            }
+        }
+        // Anything set while loading is newer than what's on disk
+        const setWhileLoading = this.entries;
+        this.entries = loaded;
+        for (const [key, entry] of setWhileLoading) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+        this.evict();
+
+        this.compact(now);
+        clearInterval(this.compactIntervalId);
+        this.compactIntervalId = setInterval(() => {
+            // Only worth rewriting once most of the file is stale
+            if (this.fileLines > 2 * this.entries.size) {
+                this.compact();
+            }
+        }, COMPACT_INTERVAL_MS);
+        // Don't keep the process alive just to tidy up the cache
+        this.compactIntervalId.unref();
+    }
+
+    get(key: string, now: number = Date.now()): DiskCacheEntry<V> | undefined {
+        const entry = this.entries.get(key);
+        if (entry === undefined) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (entry.expiresAt <= now) {
+            return undefined;
+        }
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    set(key: string, value: V, ttlMs: number, now: number = Date.now()): void {
+        const entry = { value, expiresAt: now + ttlMs };
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.evict();
+        if (this.stream) {
+            this.stream.write(JSON.stringify({ key, ...entry }) + "\n");
+            this.fileLines++;
+        }
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    close() {
+        clearInterval(this.compactIntervalId);
+        this.compactIntervalId = undefined;
+        this.stream?.end();
+        this.stream = undefined;
+    }
+
+    private evict() {
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    /**
+     * Drop expired entries, and rewrite the file with just the ones left
+     */
+    private compact(now: number = Date.now()) {
+        if (this.disabled) {
+            return;
+        }
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        }
+        const lines = Array.from(
+            this.entries,
+            ([key, entry]) => JSON.stringify({ key, ...entry }) + "\n",
+        );
+        const tempPath = `${this.filePath}.tmp`;
+        try {
+            fs.writeFileSync(tempPath, lines.join(""));
+            fs.renameSync(tempPath, this.filePath);
+        } catch (e) {
+            this.disable(e);
+            return;
+        }
+        this.fileLines = lines.length;
+        // Anything the old stream hasn't flushed yet is in the new file
+        this.stream?.end();
+        const stream = fs.createWriteStream(this.filePath, { flags: "a" });
+        stream.on("error", (e) => {
+            if (this.stream === stream) {
+                this.disable(e);
+            }
+        });
+        this.stream = stream;
+    }
+
+    private disable(error: unknown) {
+        this.log("error writing to disk, only keeping it in memory", error);
+        this.disabled = true;
+        clearInterval(this.compactIntervalId);
+        this.compactIntervalId = undefined;
+        const stream = this.stream;
+        this.stream = undefined;
+        stream?.destroy();
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * Where a flight is going, looked up by its callsign
+ *
+ * Served by `/api/flightRoute`. Routes come from whichever provider knows
+ * the callsign, so everything but the airports' names can be missing.
+ */
+
+export interface Airport {
+    name: string;
+    // e.g. "JFK" and "KJFK"
+    iataCode?: string;
+    icaoCode?: string;
+    municipality?: string;
+    countryName?: string;
+    latitude?: number;
+    longitude?: number;
+}
+
+export interface Airline {
+    name: string;
+    icao?: string;
+    iata?: string;
+    country?: string;
+    // Radio callsign, e.g. "SPEEDBIRD" for British Airways
+    callsign?: string;
+}
+
+export interface FlightRoute {
+    // The callsign the route was looked up by, e.g. "DAL402"
+    callsign: string;
+    // Flight number with the airline's ICAO and IATA codes, e.g. "DAL402"
+    // and "DL402"
+    callsignIcao?: string;
+    callsignIata?: string;
+    // Missing for private flights
+    airline?: Airline;
+    origin: Airport;
+    destination: Airport;
+}
@@ -0,0 +1,193 @@
+/**
+ * Places to look up a flight's route by its callsign
+ *
+ * adsbdb is used by default. A local file of routes can be put in front of
+ * it, for flights adsbdb gets wrong or to run without network access.
+ */
+
+import * as fs from "fs";
+import { isRecord } from "./dataSource";
+import type { Airline, Airport, FlightRoute } from "./flightRoute";
+
+export const DEFAULT_ADSBDB_BASE_URL = "https://api.adsbdb.com/v0";
+
+export interface FlightRouteProvider {
+    name: string;
+    /**
+     * Look up the route for an upper case callsign. Resolves to null if the
+     * provider doesn't know the callsign, and rejects if it couldn't be asked.
+     */
+    lookup(callsign: string): Promise<FlightRoute | null>;
+}
+
+const getString = (
+    record: Record<string, unknown>,
+    key: string,
+): string | undefined => {
+    const value = record[key];
+    return typeof value === "string" && value ? value : undefined;
+};
+
+const getNumber = (
+    record: Record<string, unknown>,
+    key: string,
+): number | undefined => {
+    const value = record[key];
+    return typeof value === "number" ? value : undefined;
+};
+
+const parseAdsbdbAirport = (airport: unknown): Airport | null => {
+    if (!isRecord(airport) || typeof airport.name !== "string") {
+        return null;
+    }
+    return {
+        name: airport.name,
+        iataCode: getString(airport, "iata_code"),
+        icaoCode: getString(airport, "icao_code"),
+        municipality: getString(airport, "municipality"),
+        countryName: getString(airport, "country_name"),
+        latitude: getNumber(airport, "latitude"),
+        longitude: getNumber(airport, "longitude"),
+    };
+};
+
+const parseAdsbdbAirline = (airline: unknown): Airline | undefined => {
+    if (!isRecord(airline) || typeof airline.name !== "string") {
+        return undefined;
+    }
+    return {
+        name: airline.name,
+        icao: getString(airline, "icao"),
+        iata: getString(airline, "iata"),
+        country: getString(airline, "country"),
+        callsign: getString(airline, "callsign"),
+    };
+};
+
+/**
+ * Looks routes up with adsbdb's callsign API. See https://www.adsbdb.com/
+ */
+export class AdsbdbProvider implements FlightRouteProvider {
+    name = "adsbdb";
+    private baseUrl: string;
+
+    constructor(baseUrl: string = DEFAULT_ADSBDB_BASE_URL) {
+        this.baseUrl = baseUrl;
+    }
+
+    async lookup(callsign: string): Promise<FlightRoute | null> {
+        const response = await fetch(
+            `${this.baseUrl}/callsign/${encodeURIComponent(callsign)}`,
+        );
+        // Unknown callsigns are a 404 with `"response": "unknown callsign"`
+        if (response.status === 404) {
+            return null;
+        }
+        if (!response.ok) {
+            throw new Error(`adsbdb responded with ${response.status}`);
+        }
+        const data: unknown = await response.json();
+        const flightroute =
+            isRecord(data) && isRecord(data.response)
+                ? data.response.flightroute
+                : undefined;
+        if (!isRecord(flightroute)) {
+            return null;
+        }
+        const origin = parseAdsbdbAirport(flightroute.origin);
+        const destination = parseAdsbdbAirport(flightroute.destination);
+        if (!origin || !destination) {
+            return null;
+        }
+        return {
+            callsign,
+            callsignIcao: getString(flightroute, "callsign_icao"),
+            callsignIata: getString(flightroute, "callsign_iata"),
+            airline: parseAdsbdbAirline(flightroute.airline),
+            origin,
+            destination,
+        };
+    }
+}
+
+/**
+ * Looks routes up in a JSON file of routes keyed by callsign, in the same
+ * shape `/api/flightRoute` responds with. The file is read on the first
+ * lookup.
+ */
+export class RouteFileProvider implements FlightRouteProvider {
+    name: string;
+    private filePath: string;
+    private routes?: Promise<Map<string, FlightRoute>>;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.name = `file ${filePath}`;
+    }
+
+    private async load(): Promise<Map<string, FlightRoute>> {
+        const data: unknown = JSON.parse(
+            await fs.promises.readFile(this.filePath, "utf-8"),
+        );
+        const routes = new Map<string, FlightRoute>();
+        if (!isRecord(data)) {
+            return routes;
+        }
+        for (const [callsign, route] of Object.entries(data)) {
+            if (
+                isRecord(route) &&
+                isRecord(route.origin) &&
+                isRecord(route.destination)
+            ) {
+                routes.set(callsign.toUpperCase(), {
+                    ...(route as unknown as FlightRoute),
+                    callsign: callsign.toUpperCase(),
+                });
+            }
+        }
+        return routes;
+    }
+
+    async lookup(callsign: string): Promise<FlightRoute | null> {
+        if (!this.routes) {
+            this.routes = this.load();
+            // Try again on the next lookup if the file couldn't be read
+            this.routes.catch(() => {
+                this.routes = undefined;
+            });
+        }
+        return (await this.routes).get(callsign) ?? null;
+    }
+}
+
+/**
+ * Asks each provider in turn, until one knows the callsign. If none do but
+ * one of them failed, the lookup fails, since the route might be out there.
+ */
+export class FallbackProvider implements FlightRouteProvider {
+    name: string;
+    private providers: FlightRouteProvider[];
+
+    constructor(providers: FlightRouteProvider[]) {
+        this.providers = providers;
+        this.name = providers.map((provider) => provider.name).join(", ");
+    }
+
+    async lookup(callsign: string): Promise<FlightRoute | null> {
+        let error: unknown;
+        for (const provider of this.providers) {
+            try {
+                const route = await provider.lookup(callsign);
+                if (route) {
+                    return route;
+                }
+            } catch (e) {
+                error ??= e;
+            }
+        }
+        if (error !== undefined) {
+            throw error;
+        }
+        return null;
+    }
+}
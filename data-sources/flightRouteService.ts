@@ -0,0 +1,191 @@
+/**
+ * Caches flight route lookups, so that each flight is only asked about once
+ *
+ * Callsigns without a route are remembered too, and lookups that failed for a
+ * shorter time so they're retried soon. Concurrent lookups of the same
+ * callsign share one request to the provider. Routes (and callsigns without
+ * one) can also be kept on disk, so a restart doesn't look them all up again.
+ *
+ * Airplanes are tagged with their route as they're reported. Callsigns that
+ * haven't been looked up yet are queued up to be looked up in the background,
+ * and subscribers are told once their routes are found.
+ */
+
+import type { FlightRoute } from "./flightRoute";
+import type { DiskCache } from "./diskCache";
+import type { FlightRouteProvider } from "./flightRouteProviders";
+import { TTLCache } from "./ttlCache";
+import type { Vehicle } from "./vehicles";
+
+export type FlightRouteResult =
+    | { status: "found"; route: FlightRoute }
+    | { status: "notFound" }
+    | { status: "error"; message: string };
+
+export interface FlightRouteServiceOptions {
+    // Airlines reuse flight numbers for different routes, so found routes
+    // don't last forever either
+    foundTtlMs: number;
+    notFoundTtlMs: number;
+    errorTtlMs: number;
+    maxEntries: number;
+    // How many background lookups can be waiting on the provider at once, so
+    // a busy region doesn't send it hundreds of requests at once
+    maxBackgroundLookups: number;
+}
+
+type RouteListener = (callsign: string, route: FlightRoute) => void;
+
+export const DEFAULT_FLIGHT_ROUTE_SERVICE_OPTIONS: FlightRouteServiceOptions = {
+    foundTtlMs: 12 * 60 * 60 * 1000,
+    notFoundTtlMs: 60 * 60 * 1000,
+    errorTtlMs: 60 * 1000,
+    maxEntries: 10000,
+    maxBackgroundLookups: 4,
+};
+
+export class FlightRouteService {
+    private provider: FlightRouteProvider;
+    private options: FlightRouteServiceOptions;
+    private cache: TTLCache<string, FlightRouteResult>;
+    private diskCache?: DiskCache<FlightRouteResult>;
+    private pending = new Map<string, Promise<FlightRouteResult>>();
+    // Callsigns waiting for a background lookup, in the order they were seen
+    private queued = new Set<string>();
+    private backgroundLookups = 0;
+    private listeners = new Set<RouteListener>();
+
+    constructor(
+        provider: FlightRouteProvider,
+        options: Partial<FlightRouteServiceOptions> = {},
+        diskCache?: DiskCache<FlightRouteResult>,
+    ) {
+        this.provider = provider;
+        this.diskCache = diskCache;
+        this.options = { ...DEFAULT_FLIGHT_ROUTE_SERVICE_OPTIONS, ...options };
+        this.cache = new TTLCache(this.options.maxEntries);
+    }
+
+    /**
+     * Look up a flight's route by its callsign, from the cache if it's been
+     * looked up recently
+     */
+    lookup(callsign: string): Promise<FlightRouteResult> {
+        const key = callsign.trim().toUpperCase();
+        this.queued.delete(key);
+        const cached = this.getCached(key);
+        if (cached) {
+            return Promise.resolve(cached);
+        }
+        let pending = this.pending.get(key);
+        if (!pending) {
+            pending = this.fetch(key).finally(() => {
+                this.pending.delete(key);
+            });
+            this.pending.set(key, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Get notified whenever a callsign's route is found. Returns a function
+     * that stops the notifications.
+     */
+    subscribe(listener: RouteListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Add an airplane's route, if its callsign has been looked up already.
+     * Otherwise it's queued up to be looked up in the background.
+     */
+    enrich(vehicle: Vehicle): Vehicle {
+        if (vehicle.kind !== "airplane" || !vehicle.attributes.callsign) {
+            return vehicle;
+        }
+        const key = vehicle.attributes.callsign.trim().toUpperCase();
+        const cached = this.getCached(key);
+        if (cached === undefined) {
+            if (!this.pending.has(key)) {
+                this.queued.add(key);
+                this.lookUpQueued();
+            }
+            return vehicle;
+        }
+        if (cached.status !== "found") {
+            return vehicle;
+        }
+        return {
+            ...vehicle,
+            attributes: { ...vehicle.attributes, route: cached.route },
+        };
+    }
+
+    private getCached(callsign: string): FlightRouteResult | undefined {
+        const cached = this.cache.get(callsign);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const stored = this.diskCache?.get(callsign);
+        if (stored === undefined) {
+            return undefined;
+        }
+        this.cache.set(callsign, stored.value, stored.expiresAt - Date.now());
+        return stored.value;
+    }
+
+    private lookUpQueued() {
+        while (
+            this.backgroundLookups < this.options.maxBackgroundLookups &&
+            this.queued.size > 0
+        ) {
+            const callsign = this.queued.values().next().value as string;
+            this.queued.delete(callsign);
+            this.backgroundLookups++;
+            this.lookup(callsign).finally(() => {
+                this.backgroundLookups--;
+                this.lookUpQueued();
+            });
+        }
+    }
+
+    private async fetch(callsign: string): Promise<FlightRouteResult> {
+        const start = Date.now();
+        let result: FlightRouteResult;
+        let ttlMs: number;
+        try {
+            const route = await this.provider.lookup(callsign);
+            result = route
+                ? { status: "found", route }
+                : { status: "notFound" };
+            ttlMs = route
+                ? this.options.foundTtlMs
+                : this.options.notFoundTtlMs;
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            console.log(
+                `Flight routes: error looking up ${callsign} from ${this.provider.name}`,
+                message,
+            );
+            result = { status: "error", message };
+            ttlMs = this.options.errorTtlMs;
+        }
+        console.log(
+            `Flight routes: looked up ${callsign}, ${result.status} in ${Date.now() - start}ms`,
+        );
+        this.cache.set(callsign, result, ttlMs);
+        // Failures are only worth remembering until they're retried
+        if (result.status !== "error") {
+            this.diskCache?.set(callsign, result, ttlMs);
+        }
+        if (result.status === "found") {
+            for (const listener of this.listeners) {
+                listener(callsign, result.route);
+            }
+        }
+        return result;
+    }
+}
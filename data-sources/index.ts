@@ -2,56 +2,106 @@ export type {
     MessageType,
     DataSourceMessage,
     DataSourceConfig,
+    DataSourceDefinition,
     BroadcastFunction,
     Logger,
     DataSource,
 } from "./dataSource";
 
 import {
+    type AnyDataSourceDefinition,
+    type DataSource,
     type DataSourceConfig,
+    type DataSourceDefinition,
     type Logger,
     type MessageType,
     type DataSourceMessage,
 } from "./dataSource";
-import { AISStreamSource, } from "./ais-stream";
-import { OpenSkySource } from "./opensky";
-import { AmtrakerSource } from "./amtracker";
-import { MTASource } from "./mta";
+import { boundsOverlap } from "./regions";
+import { aisStreamDataSource } from "./ais-stream";
+import { aisReceiverDataSource } from "./ais-receiver";
+import { openSkyDataSource } from "./opensky";
+import { adsbDataSource } from "./adsb";
+import { amtrakerDataSource } from "./amtracker";
+import { mtaDataSource } from "./mta";
 
-export interface InitializedDataSources {
-    aisStream: AISStreamSource;
-    openSky: OpenSkySource;
-    amtraker: AmtrakerSource;
-    mta: MTASource;
+// Every data source the server knows how to run. To add a feed, define it
+// next to its source and add it here.
+export const DATA_SOURCES: AnyDataSourceDefinition[] = [
+    aisStreamDataSource,
+    aisReceiverDataSource,
+    openSkyDataSource,
+    adsbDataSource,
+    amtrakerDataSource,
+    mtaDataSource,
+];
+
+export function getDataSourceDefinition<T extends MessageType>(
+    type: T,
+): DataSourceDefinition<T> | undefined {
+    return DATA_SOURCES.find((definition) => definition.type === type) as
+        | DataSourceDefinition<T>
+        | undefined;
+}
+
+/**
+ * Get the definition of the source a message is from, if its payload is the
+ * shape that source sends. Every message goes through this before it's used,
+ * so sources don't each have to check what their upstream sent.
+ */
+export function getPayloadDefinition<T extends MessageType>(
+    message: DataSourceMessage<T>,
+): DataSourceDefinition<T> | undefined {
+    const definition = getDataSourceDefinition(message.t);
+    if (definition === undefined || !definition.isPayload(message.msg)) {
+        return undefined;
+    }
+    return definition;
+}
+
+/**
+ * Get the environment variables a data source needs that aren't set
+ */
+export function getMissingEnvVars(
+    definition: AnyDataSourceDefinition,
+    env: Record<string, string | undefined>,
+): string[] {
+    return definition.envVars.filter((name) => !env[name]);
 }
 
 export function initializeDataSources(
     config: DataSourceConfig,
     broadcast: <T extends MessageType>(message: DataSourceMessage<T>) => void,
     log: Logger,
-    aisApiKey: string,
-): InitializedDataSources {
-    // Initialize and start AISStream source
-    const aisStream = new AISStreamSource(config, broadcast, log, { apiKey: aisApiKey });
-    aisStream.start();
-
-    // Initialize and start OpenSky source
-    const openSky = new OpenSkySource(config, broadcast, log);
-    openSky.start();
-
-    // Initialize and start Amtraker source
-    const amtraker = new AmtrakerSource(config, broadcast, log);
-    amtraker.start();
-
-    // Initialize and start MTA source
-    const mta = new MTASource(config, broadcast, log);
-    mta.start();
-
-    const result: InitializedDataSources = {
-        aisStream,
-        openSky,
-        amtraker,
-        mta,
-    };
-    return result;
+    env: Record<string, string | undefined> = process.env,
+): DataSource[] {
+    const dataSources: DataSource[] = [];
+    for (const definition of DATA_SOURCES) {
+        if (getMissingEnvVars(definition, env).length > 0) {
+            continue;
+        }
+        // Regional feeds only run where they have data, so that e.g. we
+        // don't load the MTA's schedules for a region on the other coast
+        if (
+            definition.coverage !== undefined &&
+            !boundsOverlap(definition.coverage, config.bounds)
+        ) {
+            log(`${definition.type} doesn't cover this region, skipping it`);
+            continue;
+        }
+        const sourceEnv: Record<string, string> = {};
+        for (const name of definition.envVars) {
+            sourceEnv[name] = env[name]!;
+        }
+        for (const name of definition.optionalEnvVars ?? []) {
+            const value = env[name];
+            if (value) {
+                sourceEnv[name] = value;
+            }
+        }
+        const dataSource = definition.create(config, broadcast, log, sourceEnv);
+        dataSource.start();
+        dataSources.push(dataSource);
+    }
+    return dataSources;
 }
@@ -1,10 +1,12 @@
 /**
  * Message payload types for each datasource
- * 
+ *
  * These types define the structure of the `msg` field in DataSourceMessage
  * for each message type. They are defined here to avoid circular dependencies.
  */
 
+import type { TrainSegment } from "./mta-segment";
+
 // MTA message payload
 export interface MTATrainPosition {
     lat: number;
@@ -17,6 +19,9 @@ export interface MTATrainPosition {
     lastStop?: string;
     progress?: number;
     heading?: number; // Bearing in degrees (0 = North, 90 = East, 180 = South, 270 = West)
+    // The stretch of track between lastStop and nextStop, so clients can keep
+    // interpolating the train's position between updates
+    segment?: TrainSegment;
 }
 
 export interface MTAMessagePayload {
@@ -25,14 +30,50 @@ export interface MTAMessagePayload {
 }
 
 // OpenSky message payload
-// OpenSky API state vector format
+// OpenSky API state vector format, parsed by parseOpenSkyState in openSkyState.ts
 // See: https://openskynetwork.github.io/opensky-api/rest.html#all-state-vectors
-export type OpenSkyStateVector = any[];
+export type OpenSkyStateVector = unknown[];
 
 export interface OpenSkyMessagePayload {
     states: OpenSkyStateVector[];
 }
 
+// ADS-B receiver message payload
+// In the format of readsb's and dump1090-fa's aircraft.json, which SBS-1
+// streams are converted into too
+// See: https://github.com/wiedehopf/readsb/blob/dev/README-json.md
+export interface ReadsbAircraft {
+    // ICAO address in hex. Starts with "~" when it isn't an ICAO address.
+    hex: string;
+    flight?: string;
+    // Feet, or "ground"
+    alt_baro?: number | "ground";
+    alt_geom?: number;
+    // Knots over ground
+    gs?: number;
+    track?: number;
+    // Feet per minute
+    baro_rate?: number;
+    geom_rate?: number;
+    squawk?: string;
+    spi?: number;
+    // Emitter category, e.g. "A3"
+    category?: string;
+    lat?: number;
+    lon?: number;
+    // Seconds since the last position, and since the last message of any kind
+    seen_pos?: number;
+    seen?: number;
+    // Where the data came from, e.g. "adsb_icao" or "mlat"
+    type?: string;
+}
+
+export interface ADSBMessagePayload {
+    // Unix timestamp (seconds) the aircraft were reported at
+    now: number;
+    aircraft: ReadsbAircraft[];
+}
+
 // Amtraker message payload
 export interface AmtrakerTrain {
     trainID: string;
@@ -40,6 +81,8 @@ export interface AmtrakerTrain {
     routeName: string;
     lat: number;
     lon: number;
+    velocity?: number; // Miles per hour
+    heading?: string; // Compass direction, e.g. "N" or "SW"
     trainTimely: string;
     stations: Array<{
         name: string;
@@ -60,6 +103,32 @@ export interface AmtrakerMessagePayload {
 }
 
 // AISStream message payload
+// See: https://aisstream.io/documentation
+export interface AISPositionReport {
+    UserID: number;
+    Latitude: number;
+    Longitude: number;
+    Cog: number; // Course over ground in degrees, 360 if not available
+    Sog: number; // Speed over ground in knots, 102.3 if not available
+    TrueHeading: number; // Degrees, 511 if not available
+    NavigationalStatus?: number; // Not sent by class B transponders
+    [key: string]: unknown;
+}
+
+export interface AISShipStaticData {
+    UserID: number;
+    Name: string;
+    CallSign: string;
+    ImoNumber: number; // 0 if not available
+    Type: number;
+    Destination: string;
+    // Meters from the GPS antenna to the bow (A), stern (B), port (C) and starboard (D)
+    Dimension: { A: number; B: number; C: number; D: number };
+    // Month and day are 0, hour 24 and minute 60 if not available
+    Eta: { Month: number; Day: number; Hour: number; Minute: number };
+    [key: string]: unknown;
+}
+
 export interface AISStreamMessagePayload {
     MessageType: string;
     MetaData: {
@@ -69,6 +138,11 @@ export interface AISStreamMessagePayload {
         longitude: number;
         [key: string]: any;
     };
+    Message?: {
+        PositionReport?: AISPositionReport;
+        StandardClassBPositionReport?: AISPositionReport;
+        ShipStaticData?: AISShipStaticData;
+        [key: string]: unknown;
+    };
     [key: string]: any;
 }
-
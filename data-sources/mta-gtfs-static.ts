@@ -341,13 +341,23 @@ function parseRoutes(csvContent: string): Map<string, Route> {
     return routesMap;
 }
 
-// MTA GTFS ZIP URLs by feed type
-const GTFS_ZIP_URLS = {
-    subway: "https://rrgtfsfeeds.s3.amazonaws.com/gtfs_subway.zip",
-    lirr: "https://rrgtfsfeeds.s3.amazonaws.com/gtfslirr.zip",
-    mnr: "https://rrgtfsfeeds.s3.amazonaws.com/gtfsmnr.zip",
+export const DEFAULT_GTFS_ZIP_BASE_URL = "https://rrgtfsfeeds.s3.amazonaws.com";
+export const DEFAULT_GTFS_CACHE_DIR = "./mta-gtfs-static";
+
+// MTA GTFS ZIP file names by feed type
+const GTFS_ZIP_FILES = {
+    subway: "gtfs_subway.zip",
+    lirr: "gtfslirr.zip",
+    mnr: "gtfsmnr.zip",
 } as const;
 
+export interface LoadStaticGTFSOptions {
+    // Where to download the ZIPs from, e.g. a local mock of the MTA
+    zipBaseUrl?: string;
+    // Where to extract the ZIPs to. Each feed type gets its own subdirectory.
+    cacheDir?: string;
+}
+
 /**
  * Download and extract GTFS ZIP file
  */
@@ -451,15 +461,17 @@ async function ensureGTFSFiles(
  * Files are organized in subdirectories: mta-gtfs-static/{feedType}/
  * 
  * @param feedType Type of feed: "subway", "lirr", or "mnr"
+ * @param options Where to download and extract the files, if not the defaults
  */
 export async function loadStaticGTFS(
     feedType: "subway" | "lirr" | "mnr",
+    options: LoadStaticGTFSOptions = {},
 ): Promise<StaticGTFSData> {
     const fs = await import("fs/promises");
     const path = await import("path");
     
     // Determine paths based on feed type
-    const baseDir = path.join("./mta-gtfs-static", feedType);
+    const baseDir = path.join(options.cacheDir ?? DEFAULT_GTFS_CACHE_DIR, feedType);
     const stopsPath = path.join(baseDir, "stops.txt");
     const shapesPath = path.join(baseDir, "shapes.txt");
     const stopTimesPath = path.join(baseDir, "stop_times.txt");
@@ -467,7 +479,8 @@ export async function loadStaticGTFS(
     const routesPath = path.join(baseDir, "routes.txt");
     
     // Get the appropriate ZIP URL
-    const zipUrl = GTFS_ZIP_URLS[feedType];
+    const zipBaseUrl = options.zipBaseUrl ?? DEFAULT_GTFS_ZIP_BASE_URL;
+    const zipUrl = `${zipBaseUrl}/${GTFS_ZIP_FILES[feedType]}`;
     
     // Ensure files exist (download/extract if needed)
     await ensureGTFSFiles(stopsPath, shapesPath, stopTimesPath, tripsPath, routesPath, zipUrl);
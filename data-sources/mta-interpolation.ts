@@ -6,51 +6,7 @@
  */
 
 import type { ShapePoint, Stop, StaticGTFSData } from "./mta-gtfs-static";
-
-export interface InterpolatedPosition {
-    lat: number;
-    lng: number;
-    progress: number; // 0-1, where 0 is at last stop, 1 is at next stop
-    heading?: number; // Bearing in degrees (0 = North, 90 = East, 180 = South, 270 = West)
-}
-
-/**
- * Calculate distance between two lat/lng points (Haversine formula)
- */
-function distance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371000; // Earth radius in meters
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLng = ((lng2 - lng1) * Math.PI) / 180;
-    const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos((lat1 * Math.PI) / 180) *
-            Math.cos((lat2 * Math.PI) / 180) *
-            Math.sin(dLng / 2) *
-            Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-}
-
-/**
- * Calculate bearing (heading) from point 1 to point 2 in degrees
- * Returns bearing in degrees where 0 = North, 90 = East, 180 = South, 270 = West
- */
-function bearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const dLng = ((lng2 - lng1) * Math.PI) / 180;
-    const lat1Rad = (lat1 * Math.PI) / 180;
-    const lat2Rad = (lat2 * Math.PI) / 180;
-    
-    const y = Math.sin(dLng) * Math.cos(lat2Rad);
-    const x =
-        Math.cos(lat1Rad) * Math.sin(lat2Rad) -
-        Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLng);
-    
-    const bearingRad = Math.atan2(y, x);
-    const bearingDeg = (bearingRad * 180) / Math.PI;
-    
-    // Normalize to 0-360
-    return (bearingDeg + 360) % 360;
-}
+import { distance, type TrainSegment } from "./mta-segment";
 
 /**
  * Find the closest point on a shape to a given lat/lng
@@ -77,114 +33,31 @@ function findClosestPointOnShape(
 }
 
 /**
- * Interpolate position along a shape between two indices
- */
-function interpolateAlongShape(
-    shape: ShapePoint[],
-    startIndex: number,
-    endIndex: number,
-    progress: number,
-): { lat: number; lng: number; heading?: number } {
-    if (startIndex === endIndex) {
-        return { lat: shape[startIndex].lat, lng: shape[startIndex].lng };
-    }
-    
-    // Calculate total distance along shape
-    let totalDistance = 0;
-    const segmentDistances: number[] = [0];
-    
-    for (let i = startIndex; i < endIndex; i++) {
-        const dist = distance(
-            shape[i].lat,
-            shape[i].lng,
-            shape[i + 1].lat,
-            shape[i + 1].lng,
-        );
-        totalDistance += dist;
-        segmentDistances.push(totalDistance);
-    }
-    
-    if (totalDistance === 0) {
-        return { lat: shape[startIndex].lat, lng: shape[startIndex].lng };
-    }
-    
-    // Find which segment we're in
-    const targetDistance = progress * totalDistance;
-    let segmentIndex = 0;
-    for (let i = 0; i < segmentDistances.length - 1; i++) {
-        if (
-            targetDistance >= segmentDistances[i] &&
-            targetDistance <= segmentDistances[i + 1]
-        ) {
-            segmentIndex = i;
-            break;
-        }
-    }
-    
-    // Interpolate within the segment
-    const segmentStart = segmentDistances[segmentIndex];
-    const segmentEnd = segmentDistances[segmentIndex + 1];
-    const segmentProgress =
-        segmentEnd > segmentStart
-            ? (targetDistance - segmentStart) / (segmentEnd - segmentStart)
-            : 0;
-    
-    const p1 = shape[startIndex + segmentIndex];
-    const p2 = shape[startIndex + segmentIndex + 1];
-    
-    const lat = p1.lat + (p2.lat - p1.lat) * segmentProgress;
-    const lng = p1.lng + (p2.lng - p1.lng) * segmentProgress;
-    
-    // Calculate heading based on the direction of the current segment
-    const heading = bearing(p1.lat, p1.lng, p2.lat, p2.lng);
-    
-    return {
-        lat,
-        lng,
-        heading,
-    };
-}
-
-/**
- * Interpolate train position between two stops based on predicted arrival times
+ * Build the segment of track a train is on between two stops
  * 
  * @param lastStop The stop the train just passed/departed
  * @param nextStop The next stop the train is heading to
  * @param lastStopTime Predicted departure/arrival time at last stop (Unix timestamp in seconds)
  * @param nextStopTime Predicted arrival time at next stop (Unix timestamp in seconds)
- * @param currentTime Current time (Unix timestamp in seconds)
  * @param staticData Static GTFS data containing shapes and stops
  * @param shapeId Optional shape ID to use for interpolation. If not provided, uses straight line.
  */
-export function interpolateTrainPosition(
+export function getTrainSegment(
     lastStop: Stop,
     nextStop: Stop,
     lastStopTime: number,
     nextStopTime: number,
-    currentTime: number,
     staticData: StaticGTFSData,
     shapeId?: string,
-): InterpolatedPosition | null {
-    // Clamp current time between last and next stop times
-    const clampedTime = Math.max(lastStopTime, Math.min(currentTime, nextStopTime));
-    
-    // Calculate progress (0 = at last stop, 1 = at next stop)
-    const timeRange = nextStopTime - lastStopTime;
-    if (timeRange <= 0) {
-        // Train is at or past next stop
-        // Use heading from last stop to next stop
-        const heading = bearing(lastStop.lat, lastStop.lng, nextStop.lat, nextStop.lng);
-        return {
-            lat: nextStop.lat,
-            lng: nextStop.lng,
-            progress: 1,
-            heading,
-        };
-    }
-    
-    const progress = (clampedTime - lastStopTime) / timeRange;
+): TrainSegment {
+    const segment: TrainSegment = {
+        lastStop: { lat: lastStop.lat, lng: lastStop.lng },
+        nextStop: { lat: nextStop.lat, lng: nextStop.lng },
+        lastStopTime,
+        nextStopTime,
+    };
     
-    // If we have a shape, interpolate along it
+    // If we have a shape, only keep the part of it between the two stops
     if (shapeId && staticData.shapes.has(shapeId)) {
         const shape = staticData.shapes.get(shapeId)!;
         
@@ -200,37 +73,21 @@ export function interpolateTrainPosition(
             nextStop.lng,
         );
         
-        // Determine direction along shape
-        let startIndex = lastStopOnShape.index;
-        let endIndex = nextStopOnShape.index;
+        const startIndex = Math.min(lastStopOnShape.index, nextStopOnShape.index);
+        const endIndex = Math.max(lastStopOnShape.index, nextStopOnShape.index);
+        const points = shape
+            .slice(startIndex, endIndex + 1)
+            .map((point) => ({ lat: point.lat, lng: point.lng }));
         
-        // If next stop is before last stop in sequence, reverse
-        if (endIndex < startIndex) {
-            [startIndex, endIndex] = [endIndex, startIndex];
+        // If next stop is before last stop in the shape, run it backwards so
+        // that the slice always goes from the last stop to the next one
+        if (nextStopOnShape.index < lastStopOnShape.index) {
+            points.reverse();
         }
-        
-        // Interpolate along shape
-        const position = interpolateAlongShape(shape, startIndex, endIndex, progress);
-        
-        return {
-            lat: position.lat,
-            lng: position.lng,
-            progress,
-            heading: position.heading,
-        };
+        segment.shape = points;
     }
     
-    // Fallback: linear interpolation between stops
-    const lat = lastStop.lat + (nextStop.lat - lastStop.lat) * progress;
-    const lng = lastStop.lng + (nextStop.lng - lastStop.lng) * progress;
-    const heading = bearing(lat, lng, nextStop.lat, nextStop.lng);
-    
-    return {
-        lat,
-        lng,
-        progress,
-        heading,
-    };
+    return segment;
 }
 
 /**
@@ -3,103 +3,156 @@
 import gtfsRealtimeBindings from "gtfs-realtime-bindings";
 import type { transit_realtime } from "gtfs-realtime-bindings";
 const transit_realtime_module = (gtfsRealtimeBindings as any).transit_realtime as typeof transit_realtime;
-import type {
-    DataSource,
-    DataSourceConfig,
-    BroadcastFunction,
-    Logger,
-    DataSourceMessage,
-    MessageType,
+import {
+    isRecord,
+    type DataSource,
+    type DataSourceConfig,
+    type DataSourceDefinition,
+    type BroadcastFunction,
+    type Logger,
+    type DataSourceMessage,
+    type MessageType,
 } from "./dataSource";
 import type { StaticGTFSData, Route } from "./mta-gtfs-static";
 import { loadStaticGTFS } from "./mta-gtfs-static";
 import {
-    interpolateTrainPosition,
+    getTrainSegment,
     findShapeForTrip,
 } from "./mta-interpolation";
+import { interpolateSegment } from "./mta-segment";
+import { isPointInBounds } from "./regions";
 
 // Import for internal use
-import type { MTATrainPosition } from "./messagePayloads";
+import type { MTAMessagePayload, MTATrainPosition } from "./messagePayloads";
+import { getVehicleId, type Vehicle, type VehicleOfKind } from "./vehicles";
+
+declare module "./dataSource" {
+    interface MessagePayloads {
+        MTA: MTAMessagePayload;
+    }
+}
 
 // Keep internal interface alias for backwards compatibility
 type TrainPosition = MTATrainPosition;
 
+export const DEFAULT_MTA_FEED_BASE_URL =
+    "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds";
+
+export interface MTAConfig {
+    // Base URL of the GTFS-RT feeds
+    feedBaseUrl: string;
+    // Base URL of the static GTFS ZIPs. Defaults to the MTA's.
+    staticBaseUrl?: string;
+    // Where to extract the static GTFS ZIPs. Defaults to ./mta-gtfs-static.
+    staticCacheDir?: string;
+}
+
+// MTA updates its feeds every ~30s
+const POLL_INTERVAL_MS = 30 * 1000;
+
+type TrainsListener = (trains: TrainPosition[], timestamp: number) => void;
+
 /**
- * MTA GTFS-RT data source
- * 
- * Fetches real-time train positions from MTA's GTFS-RT feeds and interpolates
- * positions between stations based on arrival predictions.
+ * Polls MTA's GTFS-RT feeds and interpolates train positions between stations
+ * based on arrival predictions
+ *
+ * The feeds cover the whole network, so one poller (and one copy of the
+ * static GTFS data) is shared by every region, and each region picks out the
+ * trains inside it.
  */
-export class MTASource implements DataSource {
-    private config: DataSourceConfig;
-    private broadcast: BroadcastFunction<"MTA">;
+class MTAFeedPoller {
     private log: Logger;
+    private listeners = new Set<TrainsListener>();
+    // Trains from the last poll, so that a new region doesn't have to wait
+    // for the next one
+    private lastPoll?: { trains: TrainPosition[]; timestamp: number };
     private staticDataCache: Map<string, StaticGTFSData> = new Map();
     private staticDataPromises: Map<string, Promise<StaticGTFSData>> = new Map();
     private intervalId?: NodeJS.Timeout;
     private tripShapeCache: Map<string, string> = new Map();
+    private sourceConfig: MTAConfig;
 
-    // MTA feed URLs
+    // MTA feed paths, relative to the feed base URL
     private readonly FEEDS = [
         // NYC Subway feeds (split by line groups)
         {
             name: "NYC Subway - 1234567",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/nyct%2Fgtfs",
+            path: "nyct%2Fgtfs",
             staticType: "subway" as const,
         },
         {
             name: "NYC Subway - ACE",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/nyct%2Fgtfs-ace",
+            path: "nyct%2Fgtfs-ace",
             staticType: "subway" as const,
         },
         {
             name: "NYC Subway - G",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/nyct%2Fgtfs-g",
+            path: "nyct%2Fgtfs-g",
             staticType: "subway" as const,
         },
         {
             name: "NYC Subway - NQRW",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/nyct%2Fgtfs-nqrw",
+            path: "nyct%2Fgtfs-nqrw",
             staticType: "subway" as const,
         },
         {
             name: "NYC Subway - BDFM",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/nyct%2Fgtfs-bdfm",
+            path: "nyct%2Fgtfs-bdfm",
             staticType: "subway" as const,
         },
         {
             name: "NYC Subway - JZ",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/nyct%2Fgtfs-jz",
+            path: "nyct%2Fgtfs-jz",
             staticType: "subway" as const,
         },
         {
             name: "NYC Subway - L",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/nyct%2Fgtfs-l",
+            path: "nyct%2Fgtfs-l",
             staticType: "subway" as const,
         },
         // Commuter rail feeds
         {
             name: "LIRR",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/lirr%2Fgtfs-lirr",
+            path: "lirr%2Fgtfs-lirr",
             staticType: "lirr" as const,
         },
         {
             name: "Metro-North",
-            url: "https://api-endpoint.mta.info/Dataservice/mtagtfsfeeds/mnr%2Fgtfs-mnr",
+            path: "mnr%2Fgtfs-mnr",
             staticType: "mnr" as const,
         },
     ];
 
-    constructor(
-        config: DataSourceConfig,
-        broadcast: <T extends MessageType>(message: DataSourceMessage<T>) => void,
-        log: Logger,
-    ) {
-        this.config = config;
-        this.broadcast = (message: DataSourceMessage<"MTA">) => {
-            broadcast(message);
+    constructor(sourceConfig: MTAConfig) {
+        this.sourceConfig = sourceConfig;
+        // Polls are shared between regions, so they aren't logged as any one
+        // region's
+        this.log = (...args) => console.log("MTA: ", ...args);
+    }
+
+    /**
+     * Start getting every train each time the feeds are polled. Returns a
+     * function that stops them, and stops polling once nobody's left.
+     */
+    subscribe(listener: TrainsListener): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) {
+            this.fetchData();
+            this.intervalId = setInterval(() => {
+                this.fetchData();
+            }, POLL_INTERVAL_MS);
+        } else if (this.lastPoll) {
+            listener(this.lastPoll.trains, this.lastPoll.timestamp);
+        }
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.log("Stopping MTA polling");
+                clearInterval(this.intervalId);
+                this.intervalId = undefined;
+                this.lastPoll = undefined;
+            }
         };
-        this.log = log;
     }
 
     /**
@@ -132,7 +185,10 @@ export class MTASource implements DataSource {
      */
     private async loadStaticData(staticType: "subway" | "lirr" | "mnr"): Promise<StaticGTFSData> {
         this.log(`Loading MTA static GTFS data for ${staticType}...`);
-        const staticData = await loadStaticGTFS(staticType);
+        const staticData = await loadStaticGTFS(staticType, {
+            zipBaseUrl: this.sourceConfig.staticBaseUrl,
+            cacheDir: this.sourceConfig.staticCacheDir,
+        });
         this.log(`Loaded ${staticData.stops.size} stops, ${staticData.shapes.size} shapes, ${staticData.stopTimes.size} stop times, ${staticData.trips.size} trips, ${staticData.routes.size} routes for ${staticType}`);
         return staticData;
     }
@@ -365,15 +421,15 @@ export class MTASource implements DataSource {
                         }
                     }
 
-                    const position = interpolateTrainPosition(
+                    const segment = getTrainSegment(
                         lastStop,
                         nextStop,
                         lastStopTime,
                         nextStopTime,
-                        currentTime,
                         staticData,
                         shapeId,
                     );
+                    const position = interpolateSegment(segment, currentTime);
 
                     if (position) {
                         trains.push({
@@ -387,6 +443,7 @@ export class MTASource implements DataSource {
                             lastStop: lastStop.stopName,
                             progress: position.progress,
                             heading: position.heading,
+                            segment,
                         });
                     }
                 }
@@ -414,20 +471,6 @@ export class MTASource implements DataSource {
         return trains;
     }
 
-    /**
-     * Filter trains by bounds
-     */
-    private filterByBounds(trains: TrainPosition[]): TrainPosition[] {
-        const { maxLat, minLat, maxLng, minLng } = this.config.bounds;
-        return trains.filter(
-            (train) =>
-                train.lat >= minLat &&
-                train.lat <= maxLat &&
-                train.lng >= minLng &&
-                train.lng <= maxLng,
-        );
-    }
-
     /**
      * Fetch data from all MTA feeds
      */
@@ -439,7 +482,9 @@ export class MTASource implements DataSource {
 
             // Fetch all feeds in parallel
             const feedPromises = this.FEEDS.map(async (feed) => {
-                const feedMessage = await this.fetchFeed(feed.url);
+                const feedMessage = await this.fetchFeed(
+                    `${this.sourceConfig.feedBaseUrl}/${feed.path}`,
+                );
                 if (feedMessage) {
                     const trains = await this.processTripUpdates(feedMessage, feed.staticType);
                     this.log(`Found ${trains.length} trains in ${feed.name}`);
@@ -453,40 +498,187 @@ export class MTASource implements DataSource {
                 allTrains.push(...trains);
             }
 
-            // Filter by bounds
-            const filteredTrains = this.filterByBounds(allTrains);
-
-            this.log(`Broadcasting ${filteredTrains.length} MTA trains`);
-
-            const message: DataSourceMessage<"MTA"> = {
-                t: "MTA",
-                msg: {
-                    trains: filteredTrains,
-                    timestamp: Date.now(),
-                },
-            };
-            this.broadcast(message);
+            // Everyone left while we were fetching
+            if (this.listeners.size === 0) {
+                return;
+            }
+            const timestamp = Date.now();
+            this.lastPoll = { trains: allTrains, timestamp };
+            for (const listener of this.listeners) {
+                listener(allTrains, timestamp);
+            }
         } catch (e) {
             this.log("Error fetching MTA data", e);
         }
     }
+}
 
-    start(): void {
-        // Fetch immediately
-        this.fetchData();
+// One poller per set of feeds, shared by every region
+const pollers = new Map<string, MTAFeedPoller>();
+
+const getMTAFeedPoller = (config: MTAConfig): MTAFeedPoller => {
+    const key = JSON.stringify([
+        config.feedBaseUrl,
+        config.staticBaseUrl,
+        config.staticCacheDir,
+    ]);
+    let poller = pollers.get(key);
+    if (!poller) {
+        poller = new MTAFeedPoller(config);
+        pollers.set(key, poller);
+    }
+    return poller;
+};
 
-        // Then fetch every 30 seconds (MTA updates feeds every ~30s)
-        this.intervalId = setInterval(() => {
-            this.fetchData();
-        }, 30 * 1000);
+/**
+ * MTA GTFS-RT data source
+ *
+ * Broadcasts the trains inside the region from the shared `MTAFeedPoller`.
+ */
+export class MTASource implements DataSource {
+    private config: DataSourceConfig;
+    private broadcast: BroadcastFunction<"MTA">;
+    private log: Logger;
+    private poller: MTAFeedPoller;
+    private unsubscribe?: () => void;
+
+    constructor(
+        config: DataSourceConfig,
+        broadcast: <T extends MessageType>(message: DataSourceMessage<T>) => void,
+        log: Logger,
+        sourceConfig: MTAConfig,
+    ) {
+        this.config = config;
+        this.broadcast = (message: DataSourceMessage<"MTA">) => {
+            broadcast(message);
+        };
+        this.log = log;
+        this.poller = getMTAFeedPoller(sourceConfig);
+    }
+
+    start(): void {
+        this.unsubscribe = this.poller.subscribe((trains, timestamp) => {
+            const { bounds } = this.config;
+            const inRegion = trains.filter((train) =>
+                isPointInBounds(train.lat, train.lng, bounds),
+            );
+            this.log(`Broadcasting ${inRegion.length} MTA trains`);
+            this.broadcast({
+                t: "MTA",
+                msg: {
+                    trains: inRegion,
+                    timestamp,
+                },
+            });
+        });
     }
 
     stop(): void {
-        if (this.intervalId) {
-            this.log("Stopping MTA polling");
-            clearInterval(this.intervalId);
-            this.intervalId = undefined;
+        if (this.unsubscribe) {
+            this.log("Unsubscribing from MTA feeds");
+            this.unsubscribe();
+            this.unsubscribe = undefined;
         }
     }
 }
 
+const normalizeMTA = (
+    message: DataSourceMessage<"MTA">,
+    receivedAt: number,
+): Vehicle[] => {
+    const vehicles: VehicleOfKind<"transit">[] = [];
+    for (const train of message.msg.trains ?? []) {
+        const sourceId =
+            train.tripId || `${train.routeId}-${train.lat}-${train.lng}`;
+        vehicles.push({
+            id: getVehicleId("transit", sourceId),
+            kind: "transit",
+            lat: train.lat,
+            lng: train.lng,
+            heading: train.heading,
+            lastSeen: receivedAt,
+            attributes: {
+                tripId: train.tripId,
+                routeId: train.routeId,
+                routeColor: train.routeColor,
+                direction: train.direction,
+                nextStop: train.nextStop,
+                lastStop: train.lastStop,
+                progress: train.progress,
+                segment: train.segment,
+            },
+        });
+    }
+    return vehicles;
+};
+
+/**
+ * Shift the message's timestamp, and the stop times (seconds) of each train's
+ * segment so it keeps moving along it
+ */
+const retimeMTA = (
+    message: DataSourceMessage<"MTA">,
+    offsetMs: number,
+): DataSourceMessage<"MTA"> => {
+    const offsetSeconds = Math.round(offsetMs / 1000);
+    return {
+        ...message,
+        msg: {
+            ...message.msg,
+            timestamp: message.msg.timestamp + offsetMs,
+            trains: message.msg.trains.map((train) =>
+                train.segment
+                    ? {
+                          ...train,
+                          segment: {
+                              ...train.segment,
+                              lastStopTime:
+                                  train.segment.lastStopTime + offsetSeconds,
+                              nextStopTime:
+                                  train.segment.nextStopTime + offsetSeconds,
+                          },
+                      }
+                    : train,
+            ),
+        },
+    };
+};
+
+export const mtaDataSource: DataSourceDefinition<"MTA"> = {
+    type: "MTA",
+    envVars: [],
+    optionalEnvVars: [
+        "MTA_FEED_BASE_URL",
+        "MTA_STATIC_BASE_URL",
+        "MTA_STATIC_DIR",
+    ],
+    // The subway plus the LIRR and Metro-North lines, from Port Jervis and
+    // Poughkeepsie out to Montauk and New Haven
+    coverage: {
+        minLat: 40.4,
+        maxLat: 41.8,
+        minLng: -74.8,
+        maxLng: -71.8,
+    },
+    isPayload: (payload): payload is MTAMessagePayload => {
+        return (
+            isRecord(payload) &&
+            typeof payload.timestamp === "number" &&
+            Array.isArray(payload.trains) &&
+            payload.trains.every(
+                (train) =>
+                    isRecord(train) &&
+                    typeof train.lat === "number" &&
+                    typeof train.lng === "number",
+            )
+        );
+    },
+    normalize: normalizeMTA,
+    retime: retimeMTA,
+    create: (config, broadcast, log, env) =>
+        new MTASource(config, broadcast, log, {
+            feedBaseUrl: env.MTA_FEED_BASE_URL ?? DEFAULT_MTA_FEED_BASE_URL,
+            staticBaseUrl: env.MTA_STATIC_BASE_URL,
+            staticCacheDir: env.MTA_STATIC_DIR,
+        }),
+};
@@ -0,0 +1,343 @@
+/**
+ * Decoder for the raw AIS sentences (`!AIVDM` and `!AIVDO`) that AIS
+ * receivers output in NMEA 0183
+ *
+ * Each sentence carries a six-bit armored payload, and longer messages are
+ * split over several sentences. See:
+ * https://gpsd.gitlab.io/gpsd/AIVDM.html
+ */
+
+export interface AISPositionMessage {
+    kind: "position";
+    messageType: number;
+    mmsi: number;
+    // Class B transponders (types 18 and 19) don't send a navigational status
+    classB: boolean;
+    latitude: number;
+    longitude: number;
+    // Knots, 102.3 if not available
+    sog: number;
+    // Degrees, 360 if not available
+    cog: number;
+    // Degrees, 511 if not available
+    trueHeading: number;
+    navigationalStatus?: number;
+}
+
+export interface AISStaticMessage {
+    kind: "static";
+    messageType: number;
+    mmsi: number;
+    // Undefined for whatever the message doesn't carry. Class B vessels send
+    // their name and the rest of their details in separate messages.
+    name?: string;
+    callSign?: string;
+    imo?: number;
+    shipType?: number;
+    // Meters from the GPS antenna to the bow (A), stern (B), port (C) and
+    // starboard (D)
+    dimension?: { A: number; B: number; C: number; D: number };
+    // Month and day are 0, hour 24 and minute 60 if not available
+    eta?: { Month: number; Day: number; Hour: number; Minute: number };
+    destination?: string;
+}
+
+export type AISMessage = AISPositionMessage | AISStaticMessage;
+
+// Characters of six-bit text fields, by value
+const SIXBIT_ASCII =
+    "@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_ !\"#$%&'()*+,-./0123456789:;<=>?";
+
+// Parts of multi-sentence messages are dropped if the rest don't arrive in
+// this long
+const FRAGMENT_TIMEOUT_MS = 10 * 1000;
+
+// Positions are in 1/10000 minutes, and these mean they aren't available
+const COORDINATE_SCALE = 600000;
+const LONGITUDE_NOT_AVAILABLE = 181;
+const LATITUDE_NOT_AVAILABLE = 91;
+
+/**
+ * Reads fields out of a de-armored payload. Reading past the end gives zeros,
+ * since some transmitters leave off trailing padding.
+ */
+class PayloadBits {
+    private bits: number[] = [];
+
+    constructor(payload: string, fillBits: number) {
+        for (const char of payload) {
+            let value = char.charCodeAt(0) - 48;
+            if (value > 40) {
+                value -= 8;
+            }
+            for (let bit = 5; bit >= 0; bit--) {
+                this.bits.push((value >> bit) & 1);
+            }
+        }
+        this.bits.length = Math.max(0, this.bits.length - fillBits);
+    }
+
+    get length(): number {
+        return this.bits.length;
+    }
+
+    uint(start: number, length: number): number {
+        let value = 0;
+        for (let i = start; i < start + length; i++) {
+            value = value * 2 + (this.bits[i] ?? 0);
+        }
+        return value;
+    }
+
+    int(start: number, length: number): number {
+        const value = this.uint(start, length);
+        return this.bits[start] === 1 ? value - 2 ** length : value;
+    }
+
+    text(start: number, length: number): string {
+        let text = "";
+        for (let i = start; i < start + length; i += 6) {
+            text += SIXBIT_ASCII[this.uint(i, 6)];
+        }
+        // "@" pads text out to the field's length
+        return text.replace(/@.*$/, "").trim();
+    }
+}
+
+const readPosition = (
+    bits: PayloadBits,
+    longitudeStart: number,
+): { latitude: number; longitude: number } | null => {
+    const longitude = bits.int(longitudeStart, 28) / COORDINATE_SCALE;
+    const latitude = bits.int(longitudeStart + 28, 27) / COORDINATE_SCALE;
+    if (
+        longitude === LONGITUDE_NOT_AVAILABLE ||
+        latitude === LATITUDE_NOT_AVAILABLE ||
+        Math.abs(longitude) > 180 ||
+        Math.abs(latitude) > 90
+    ) {
+        return null;
+    }
+    return { latitude, longitude };
+};
+
+const readDimension = (bits: PayloadBits, start: number) => {
+    return {
+        A: bits.uint(start, 9),
+        B: bits.uint(start + 9, 9),
+        C: bits.uint(start + 18, 6),
+        D: bits.uint(start + 24, 6),
+    };
+};
+
+/**
+ * Decode a reassembled payload, or return an empty list for message types
+ * we don't use. Class B extended reports (type 19) have both a position and
+ * static data, so they decode into one of each.
+ */
+export const decodeAISPayload = (
+    payload: string,
+    fillBits: number,
+): AISMessage[] => {
+    const bits = new PayloadBits(payload, fillBits);
+    const messageType = bits.uint(0, 6);
+    const mmsi = bits.uint(8, 30);
+
+    switch (messageType) {
+        case 1:
+        case 2:
+        case 3: {
+            const position = readPosition(bits, 61);
+            if (bits.length < 168 || !position) {
+                return [];
+            }
+            return [
+                {
+                    kind: "position",
+                    messageType,
+                    mmsi,
+                    classB: false,
+                    ...position,
+                    sog: bits.uint(50, 10) / 10,
+                    cog: bits.uint(116, 12) / 10,
+                    trueHeading: bits.uint(128, 9),
+                    navigationalStatus: bits.uint(38, 4),
+                },
+            ];
+        }
+        case 5: {
+            if (bits.length < 420) {
+                return [];
+            }
+            return [
+                {
+                    kind: "static",
+                    messageType,
+                    mmsi,
+                    imo: bits.uint(40, 30),
+                    callSign: bits.text(70, 42),
+                    name: bits.text(112, 120),
+                    shipType: bits.uint(232, 8),
+                    dimension: readDimension(bits, 240),
+                    eta: {
+                        Month: bits.uint(274, 4),
+                        Day: bits.uint(278, 5),
+                        Hour: bits.uint(283, 5),
+                        Minute: bits.uint(288, 6),
+                    },
+                    destination: bits.text(302, 120),
+                },
+            ];
+        }
+        case 18:
+        case 19: {
+            const position = readPosition(bits, 57);
+            if (bits.length < (messageType === 18 ? 168 : 312) || !position) {
+                return [];
+            }
+            const report: AISPositionMessage = {
+                kind: "position",
+                messageType,
+                mmsi,
+                classB: true,
+                ...position,
+                sog: bits.uint(46, 10) / 10,
+                cog: bits.uint(112, 12) / 10,
+                trueHeading: bits.uint(124, 9),
+            };
+            if (messageType === 18) {
+                return [report];
+            }
+            return [
+                report,
+                {
+                    kind: "static",
+                    messageType,
+                    mmsi,
+                    name: bits.text(143, 120),
+                    shipType: bits.uint(263, 8),
+                    dimension: readDimension(bits, 271),
+                },
+            ];
+        }
+        case 24: {
+            // Part A has the name, part B everything else
+            const partNumber = bits.uint(38, 2);
+            if (partNumber === 0 && bits.length >= 160) {
+                return [
+                    {
+                        kind: "static",
+                        messageType,
+                        mmsi,
+                        name: bits.text(40, 120),
+                    },
+                ];
+            }
+            if (partNumber === 1 && bits.length >= 162) {
+                return [
+                    {
+                        kind: "static",
+                        messageType,
+                        mmsi,
+                        shipType: bits.uint(40, 8),
+                        callSign: bits.text(90, 42),
+                        dimension: readDimension(bits, 132),
+                    },
+                ];
+            }
+            return [];
+        }
+        default:
+            return [];
+    }
+};
+
+/**
+ * Whether a sentence's checksum (the hex after "*") matches the XOR of the
+ * characters between "!" and "*"
+ */
+const hasValidChecksum = (sentence: string): boolean => {
+    const star = sentence.indexOf("*");
+    if (star === -1) {
+        // Some receivers leave the checksum off
+        return true;
+    }
+    let checksum = 0;
+    for (let i = 1; i < star; i++) {
+        checksum ^= sentence.charCodeAt(i);
+    }
+    return checksum === parseInt(sentence.slice(star + 1, star + 3), 16);
+};
+
+/**
+ * Reassembles AIS messages from NMEA sentences, which can each carry all or
+ * part of one
+ */
+export class AISSentenceDecoder {
+    private fragments = new Map<
+        string,
+        {
+            parts: string[];
+            received: number;
+            fillBits: number;
+            startedAt: number;
+        }
+    >();
+
+    /**
+     * Add a line from a receiver, returning the messages it completes. Lines
+     * that aren't AIS sentences, or fail their checksum, are ignored.
+     */
+    add(line: string, now: number = Date.now()): AISMessage[] {
+        // Lines can start with a tag block or a timestamp from the receiver
+        const start = line.indexOf("!");
+        if (start === -1) {
+            return [];
+        }
+        const sentence = line.slice(start).trim();
+        const fields = sentence.split("*")[0].split(",");
+        if (
+            fields.length < 7 ||
+            !/^![A-Z]{2}VD[MO]$/.test(fields[0]) ||
+            !hasValidChecksum(sentence)
+        ) {
+            return [];
+        }
+        const [, totalField, numberField, sequenceId, channel, payload] =
+            fields;
+        const fillBits = Number(fields[6]) || 0;
+        const total = Number(totalField);
+        const number = Number(numberField);
+        if (!(total >= 1 && number >= 1 && number <= total)) {
+            return [];
+        }
+        if (total === 1) {
+            return decodeAISPayload(payload, fillBits);
+        }
+
+        for (const [key, fragment] of this.fragments) {
+            if (now - fragment.startedAt > FRAGMENT_TIMEOUT_MS) {
+                this.fragments.delete(key);
+            }
+        }
+        const key = `${fields[0]}:${sequenceId}:${channel}`;
+        let fragment = this.fragments.get(key);
+        if (!fragment || number === 1) {
+            fragment = { parts: [], received: 0, fillBits: 0, startedAt: now };
+            this.fragments.set(key, fragment);
+        }
+        if (fragment.parts[number - 1] === undefined) {
+            fragment.received++;
+        }
+        fragment.parts[number - 1] = payload;
+        // Only the last sentence's fill bits count
+        if (number === total) {
+            fragment.fillBits = fillBits;
+        }
+        if (fragment.received < total) {
+            return [];
+        }
+        this.fragments.delete(key);
+        return decodeAISPayload(fragment.parts.join(""), fragment.fillBits);
+    }
+}
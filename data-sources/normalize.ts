@@ -0,0 +1,24 @@
+/**
+ * Normalizes each data source's raw payload into `Vehicle` records
+ */
+
+import type { DataSourceMessage, MessageType } from "./dataSource";
+import { getPayloadDefinition } from "./index";
+import type { Vehicle } from "./vehicles";
+
+/**
+ * Normalize a raw data source message into vehicle records, using the
+ * normalizer its data source was registered with. Payloads that aren't the
+ * shape their source sends (e.g. an error from upstream) are dropped.
+ */
+export const normalizeMessage = <T extends MessageType>(
+    message: DataSourceMessage<T>,
+    receivedAt: number = Date.now(),
+): Vehicle[] => {
+    const definition = getPayloadDefinition(message);
+    if (definition === undefined) {
+        console.log(`dropping malformed ${message.t} message`);
+        return [];
+    }
+    return definition.normalize(message, receivedAt);
+};
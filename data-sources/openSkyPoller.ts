@@ -0,0 +1,366 @@
+/**
+ * Shared, rate-limit-aware polling of OpenSky's state vectors
+ *
+ * Every region runs its own OpenSky source, but neighbouring regions mostly
+ * want the same aircraft, and OpenSky charges credits for every request.
+ * Sources subscribe to the poller for their upstream instead. It makes one
+ * request for each group of touching regions and hands each source the
+ * states inside its bounds.
+ *
+ * See: https://openskynetwork.github.io/opensky-api/rest.html#limitations
+ */
+
+import type { Logger } from "./dataSource";
+import type { OpenSkyStateVector } from "./messagePayloads";
+import type { OpenSkyConfig } from "./opensky";
+import { containsBounds, isPointInBounds, type Bounds } from "./regions";
+
+export const DEFAULT_OPENSKY_AUTH_URL =
+    "https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token";
+
+// Anonymous users get few enough credits that polling any faster would run
+// out partway through the day
+const ANONYMOUS_POLL_INTERVAL_MS = 3 * 60 * 1000;
+const AUTHENTICATED_POLL_INTERVAL_MS = 10 * 1000;
+
+// Failed requests are retried after this long, doubling with each failure in
+// a row up to the max
+const INITIAL_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+// Once this few credits are left, the rest are spread over a day so that the
+// map slows down instead of going dark until they're topped back up
+const LOW_CREDITS = 500;
+const CREDIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Access tokens are refreshed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+type StatesListener = (states: OpenSkyStateVector[]) => void;
+
+interface Subscription {
+    bounds: Bounds;
+    listener: StatesListener;
+}
+
+type FetchResult =
+    | { ok: true; states: OpenSkyStateVector[]; creditsRemaining?: number }
+    | { ok: false; status?: number; retryAfterMs?: number };
+
+/**
+ * Get how many credits a request for `bounds` costs, which goes up with the
+ * area in square degrees
+ */
+const getRequestCredits = (bounds: Bounds): number => {
+    const area =
+        (bounds.maxLat - bounds.minLat) * (bounds.maxLng - bounds.minLng);
+    if (area <= 25) {
+        return 1;
+    }
+    if (area <= 100) {
+        return 2;
+    }
+    if (area <= 400) {
+        return 3;
+    }
+    return 4;
+};
+
+const boundsTouch = (a: Bounds, b: Bounds): boolean => {
+    return (
+        a.minLat <= b.maxLat &&
+        b.minLat <= a.maxLat &&
+        a.minLng <= b.maxLng &&
+        b.minLng <= a.maxLng
+    );
+};
+
+/**
+ * Merge bounds that overlap or share an edge, until every group is apart
+ * from the others
+ */
+const groupBounds = (bounds: Bounds[]): Bounds[] => {
+    const groups: Bounds[] = [];
+    for (const next of bounds) {
+        let merged = { ...next };
+        // Merging can make a group reach ones it didn't touch before
+        for (let i = 0; i < groups.length; ) {
+            if (boundsTouch(groups[i], merged)) {
+                merged = {
+                    minLat: Math.min(groups[i].minLat, merged.minLat),
+                    maxLat: Math.max(groups[i].maxLat, merged.maxLat),
+                    minLng: Math.min(groups[i].minLng, merged.minLng),
+                    maxLng: Math.max(groups[i].maxLng, merged.maxLng),
+                };
+                groups.splice(i, 1);
+                i = 0;
+            } else {
+                i++;
+            }
+        }
+        groups.push(merged);
+    }
+    return groups;
+};
+
+const getStatesInBounds = (
+    states: OpenSkyStateVector[],
+    bounds: Bounds,
+): OpenSkyStateVector[] => {
+    return states.filter(
+        (state) =>
+            typeof state[6] === "number" &&
+            typeof state[5] === "number" &&
+            isPointInBounds(state[6], state[5], bounds),
+    );
+};
+
+/**
+ * Get how long OpenSky asked us to wait before trying again, if it said
+ */
+const getRetryAfterMs = (headers: Headers): number | undefined => {
+    const seconds = Number(
+        headers.get("X-Rate-Limit-Retry-After-Seconds") ??
+            headers.get("Retry-After") ??
+            NaN,
+    );
+    return Number.isFinite(seconds) && seconds >= 0
+        ? seconds * 1000
+        : undefined;
+};
+
+export class OpenSkyPoller {
+    private config: OpenSkyConfig;
+    private log: Logger;
+    private subscriptions: Subscription[] = [];
+    private timeoutId?: NodeJS.Timeout;
+    private polling = false;
+    // Set when a region subscribes during a poll, so that it doesn't have to
+    // wait a whole interval for its first states
+    private pollAgain = false;
+    private failures = 0;
+    private accessToken?: { value: string; expiresAt: number };
+    // States from the last successful poll, by the bounds they were fetched for
+    private lastResults: { bounds: Bounds; states: OpenSkyStateVector[] }[] =
+        [];
+
+    constructor(config: OpenSkyConfig) {
+        this.config = config;
+        // Polls are shared between regions, so they aren't logged as any one
+        // region's
+        this.log = (...args) => console.log("OpenSky: ", ...args);
+    }
+
+    private get pollIntervalMs(): number {
+        return this.config.credentials
+            ? AUTHENTICATED_POLL_INTERVAL_MS
+            : ANONYMOUS_POLL_INTERVAL_MS;
+    }
+
+    /**
+     * Start getting states inside `bounds` each time they're polled. Returns
+     * a function that stops them, and stops polling once nobody's left.
+     */
+    subscribe(bounds: Bounds, listener: StatesListener): () => void {
+        const subscription = { bounds, listener };
+        this.subscriptions.push(subscription);
+
+        const cached = this.lastResults.find((result) =>
+            containsBounds(result.bounds, bounds),
+        );
+        if (cached) {
+            listener(getStatesInBounds(cached.states, bounds));
+        } else if (this.polling) {
+            this.pollAgain = true;
+        } else if (this.timeoutId === undefined || this.failures === 0) {
+            // Poll for the new region now, unless we're backing off
+            this.schedule(0);
+        }
+
+        return () => {
+            this.subscriptions = this.subscriptions.filter(
+                (other) => other !== subscription,
+            );
+            if (this.subscriptions.length === 0) {
+                this.log("Stopping polling");
+                clearTimeout(this.timeoutId);
+                this.timeoutId = undefined;
+                this.lastResults = [];
+            }
+        };
+    }
+
+    private schedule(delayMs: number) {
+        clearTimeout(this.timeoutId);
+        this.timeoutId = setTimeout(() => {
+            this.timeoutId = undefined;
+            this.poll();
+        }, delayMs);
+    }
+
+    private async poll(): Promise<void> {
+        this.polling = true;
+        this.pollAgain = false;
+        const groups = groupBounds(
+            this.subscriptions.map((subscription) => subscription.bounds),
+        );
+        const results: { bounds: Bounds; states: OpenSkyStateVector[] }[] = [];
+        let creditsRemaining: number | undefined;
+        let failure: Extract<FetchResult, { ok: false }> | undefined;
+        for (const bounds of groups) {
+            const result = await this.fetchStates(bounds);
+            if (!result.ok) {
+                failure = result;
+                break;
+            }
+            results.push({ bounds, states: result.states });
+            creditsRemaining = result.creditsRemaining ?? creditsRemaining;
+        }
+        this.polling = false;
+
+        // Deliver whatever we got, even if a later request failed
+        for (const result of results) {
+            for (const subscription of this.subscriptions) {
+                if (containsBounds(result.bounds, subscription.bounds)) {
+                    subscription.listener(
+                        getStatesInBounds(result.states, subscription.bounds),
+                    );
+                }
+            }
+        }
+        if (this.subscriptions.length === 0) {
+            return;
+        }
+        if (results.length > 0) {
+            this.lastResults = results;
+        }
+
+        if (failure) {
+            this.failures++;
+            const backoffMs = Math.min(
+                MAX_BACKOFF_MS,
+                INITIAL_BACKOFF_MS * 2 ** (this.failures - 1),
+            );
+            const delayMs = Math.max(
+                this.pollIntervalMs,
+                failure.retryAfterMs ?? backoffMs,
+            );
+            this.log(
+                `Request failed${failure.status ? ` (${failure.status})` : ""}, retrying in ${Math.round(delayMs / 1000)}s`,
+            );
+            this.schedule(delayMs);
+            return;
+        }
+
+        this.failures = 0;
+        let delayMs = this.pollIntervalMs;
+        if (creditsRemaining !== undefined && creditsRemaining < LOW_CREDITS) {
+            const creditsPerPoll = groups
+                .map(getRequestCredits)
+                .reduce((a, b) => a + b, 0);
+            const pollsLeft = Math.max(1, creditsRemaining / creditsPerPoll);
+            delayMs = Math.max(delayMs, CREDIT_WINDOW_MS / pollsLeft);
+            this.log(
+                `${creditsRemaining} credits left, polling every ${Math.round(delayMs / 1000)}s`,
+            );
+        }
+        this.schedule(this.pollAgain ? 0 : delayMs);
+    }
+
+    private async fetchStates(bounds: Bounds): Promise<FetchResult> {
+        const params = new URLSearchParams();
+        params.set("lamin", bounds.minLat + "");
+        params.set("lamax", bounds.maxLat + "");
+        params.set("lomin", bounds.minLng + "");
+        params.set("lomax", bounds.maxLng + "");
+        // Includes each aircraft's category
+        params.set("extended", "1");
+
+        this.log("fetching states...");
+        try {
+            const headers: Record<string, string> = {};
+            if (this.config.credentials) {
+                headers.Authorization = `Bearer ${await this.getAccessToken()}`;
+            }
+            const response = await fetch(
+                `${this.config.baseUrl}/states/all?` + params.toString(),
+                { headers },
+            );
+            if (!response.ok) {
+                if (response.status === 401) {
+                    // Make sure the next attempt gets a fresh token
+                    this.accessToken = undefined;
+                }
+                return {
+                    ok: false,
+                    status: response.status,
+                    retryAfterMs: getRetryAfterMs(response.headers),
+                };
+            }
+            const data = await response.json();
+            const creditsRemaining = Number(
+                response.headers.get("X-Rate-Limit-Remaining") ?? NaN,
+            );
+            return {
+                ok: true,
+                states: Array.isArray(data?.states) ? data.states : [],
+                creditsRemaining: Number.isFinite(creditsRemaining)
+                    ? creditsRemaining
+                    : undefined,
+            };
+        } catch (error) {
+            this.log("Error fetching states:", error);
+            return { ok: false };
+        }
+    }
+
+    /**
+     * Get an access token with the client credentials, reusing the last one
+     * until it's about to expire
+     */
+    private async getAccessToken(): Promise<string> {
+        if (
+            this.accessToken &&
+            this.accessToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()
+        ) {
+            return this.accessToken.value;
+        }
+        const { clientId, clientSecret, authUrl } = this.config.credentials!;
+        const response = await fetch(authUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: new URLSearchParams({
+                grant_type: "client_credentials",
+                client_id: clientId,
+                client_secret: clientSecret,
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(
+                `OpenSky token request failed with status ${response.status}`,
+            );
+        }
+        const data = await response.json();
+        if (typeof data?.access_token !== "string") {
+            throw new Error("OpenSky token response has no access token");
+        }
+        this.accessToken = {
+            value: data.access_token,
+            expiresAt: Date.now() + Number(data.expires_in ?? 0) * 1000,
+        };
+        return this.accessToken.value;
+    }
+}
+
+// One poller per upstream and set of credentials, shared by every region
+const pollers = new Map<string, OpenSkyPoller>();
+
+export const getOpenSkyPoller = (config: OpenSkyConfig): OpenSkyPoller => {
+    const key = JSON.stringify([config.baseUrl, config.credentials?.clientId]);
+    let poller = pollers.get(key);
+    if (!poller) {
+        poller = new OpenSkyPoller(config);
+        pollers.set(key, poller);
+    }
+    return poller;
+};
@@ -0,0 +1,102 @@
+/**
+ * Typed parsing of OpenSky state vectors
+ *
+ * OpenSky sends each aircraft as an array of fields rather than an object. See:
+ * https://openskynetwork.github.io/opensky-api/rest.html#all-state-vectors
+ */
+
+import type { AircraftPositionSource } from "./vehicles";
+
+export interface OpenSkyState {
+    // Transponder address in lowercase hex, e.g. "a1b2c3"
+    icao24: string;
+    // Trimmed, and undefined when the aircraft doesn't send one
+    callsign?: string;
+    // Inferred by OpenSky from the transponder address
+    originCountry: string;
+    // Unix timestamps (seconds) of the last position report, and of the last
+    // message of any kind
+    timePosition?: number;
+    lastContact: number;
+    longitude: number;
+    latitude: number;
+    // Meters. Barometric altitude is what pilots and controllers go by,
+    // geometric altitude is from GPS.
+    baroAltitude?: number;
+    geoAltitude?: number;
+    onGround: boolean;
+    // Meters per second over ground
+    velocity?: number;
+    // Degrees clockwise from north
+    trueTrack?: number;
+    // Meters per second, positive when climbing
+    verticalRate?: number;
+    squawk?: string;
+    // Special purpose indicator, set when the pilot presses "ident"
+    spi: boolean;
+    positionSource: AircraftPositionSource;
+    // ADS-B emitter category, only sent with `extended=1`. 0 and 1 mean it
+    // isn't known, so those are left undefined.
+    category?: number;
+}
+
+const POSITION_SOURCES: AircraftPositionSource[] = [
+    "ADS-B",
+    "ASTERIX",
+    "MLAT",
+    "FLARM",
+];
+
+const optionalNumber = (value: unknown): number | undefined => {
+    return typeof value === "number" && Number.isFinite(value)
+        ? value
+        : undefined;
+};
+
+const optionalString = (value: unknown): string | undefined => {
+    if (typeof value !== "string") {
+        return undefined;
+    }
+    const trimmed = value.trim();
+    return trimmed ? trimmed : undefined;
+};
+
+/**
+ * Parse a state vector, or return null if it's missing the address, the
+ * position or when it was last heard from. Every other field can be missing.
+ */
+export const parseOpenSkyState = (state: unknown[]): OpenSkyState | null => {
+    const icao24 = optionalString(state[0])?.toLowerCase();
+    const longitude = optionalNumber(state[5]);
+    const latitude = optionalNumber(state[6]);
+    const lastContact = optionalNumber(state[4]) ?? optionalNumber(state[3]);
+    if (
+        icao24 === undefined ||
+        longitude === undefined ||
+        latitude === undefined ||
+        lastContact === undefined
+    ) {
+        return null;
+    }
+    const category = optionalNumber(state[17]);
+    return {
+        icao24,
+        callsign: optionalString(state[1]),
+        originCountry: optionalString(state[2]) ?? "",
+        timePosition: optionalNumber(state[3]),
+        lastContact,
+        longitude,
+        latitude,
+        baroAltitude: optionalNumber(state[7]),
+        onGround: state[8] === true,
+        velocity: optionalNumber(state[9]),
+        trueTrack: optionalNumber(state[10]),
+        verticalRate: optionalNumber(state[11]),
+        geoAltitude: optionalNumber(state[13]),
+        squawk: optionalString(state[14]),
+        spi: state[15] === true,
+        positionSource:
+            POSITION_SOURCES[optionalNumber(state[16]) ?? 0] ?? "ADS-B",
+        category: category !== undefined && category > 1 ? category : undefined,
+    };
+};
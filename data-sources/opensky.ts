@@ -1,24 +1,62 @@
-import type {
-    DataSource,
-    DataSourceConfig,
-    BroadcastFunction,
-    Logger,
-    DataSourceMessage,
-    MessageType,
+import {
+    isRecord,
+    type DataSource,
+    type DataSourceConfig,
+    type DataSourceDefinition,
+    type BroadcastFunction,
+    type Logger,
+    type DataSourceMessage,
+    type MessageType,
 } from "./dataSource";
+import type { OpenSkyMessagePayload } from "./messagePayloads";
+import { parseOpenSkyState } from "./openSkyState";
+import {
+    DEFAULT_OPENSKY_AUTH_URL,
+    getOpenSkyPoller,
+    type OpenSkyPoller,
+} from "./openSkyPoller";
+import { getVehicleId, type Vehicle, type VehicleOfKind } from "./vehicles";
+
+declare module "./dataSource" {
+    interface MessagePayloads {
+        OpenSky: OpenSkyMessagePayload;
+    }
+}
+
+export const DEFAULT_OPENSKY_BASE_URL = "https://opensky-network.org/api";
+
+// OAuth client credentials for an OpenSky account, which gets far more
+// request credits than anonymous access
+export interface OpenSkyCredentials {
+    clientId: string;
+    clientSecret: string;
+    // Token endpoint the credentials are exchanged at
+    authUrl: string;
+}
+
+export interface OpenSkyConfig {
+    baseUrl: string;
+    credentials?: OpenSkyCredentials;
+}
 
 export class OpenSkySource implements DataSource {
     private config: DataSourceConfig;
     private broadcast: BroadcastFunction<"OpenSky">;
     private log: Logger;
-    private intervalId?: NodeJS.Timeout;
+    private poller: OpenSkyPoller;
+    private unsubscribe?: () => void;
 
     constructor(
         config: DataSourceConfig,
-        broadcast: <T extends MessageType>(message: DataSourceMessage<T>) => void,
+        broadcast: <T extends MessageType>(
+            message: DataSourceMessage<T>,
+        ) => void,
         log: Logger,
+        sourceConfig: OpenSkyConfig,
     ) {
         this.config = config;
+        // Regions polling the same upstream share their requests
+        this.poller = getOpenSkyPoller(sourceConfig);
         // Wrap the generic broadcast function with our specific type
         this.broadcast = (message: DataSourceMessage<"OpenSky">) => {
             broadcast(message);
@@ -26,49 +64,114 @@ export class OpenSkySource implements DataSource {
         this.log = log;
     }
 
-    private async fetchData(): Promise<void> {
-        const { maxLat, minLat, maxLng, minLng } = this.config.bounds;
-        const params = new URLSearchParams();
-        params.set("lamin", minLat + "");
-        params.set("lamax", maxLat + "");
-        params.set("lomin", minLng + "");
-        params.set("lomax", maxLng + "");
-
-        this.log("fetching OpenSky states...");
-        try {
-            const response = await fetch(
-                "https://opensky-network.org/api/states/all?" +
-                    params.toString(),
-            );
-            const data = await response.json();
-            const message: DataSourceMessage<"OpenSky"> = {
-                t: "OpenSky",
-                msg: {
-                    states: data?.states ?? [],
-                },
-            };
-            this.broadcast(message);
-        } catch (error) {
-            this.log("Error fetching OpenSky data:", error);
-        }
-    }
-
     start(): void {
-        // Fetch immediately
-        this.fetchData();
-
-        // Then fetch every 3 minutes
-        this.intervalId = setInterval(() => {
-            this.fetchData();
-        }, 3 * 60 * 1000);
+        this.unsubscribe = this.poller.subscribe(
+            this.config.bounds,
+            (states) => {
+                this.broadcast({ t: "OpenSky", msg: { states } });
+            },
+        );
     }
 
     stop(): void {
-        if (this.intervalId) {
-            this.log("Stopping OpenSky polling");
-            clearInterval(this.intervalId);
-            this.intervalId = undefined;
+        if (this.unsubscribe) {
+            this.log("Unsubscribing from OpenSky polling");
+            this.unsubscribe();
+            this.unsubscribe = undefined;
         }
     }
 }
 
+const normalizeOpenSky = (
+    message: DataSourceMessage<"OpenSky">,
+    receivedAt: number,
+): Vehicle[] => {
+    const vehicles: VehicleOfKind<"airplane">[] = [];
+    for (const vector of message.msg.states) {
+        const state = parseOpenSkyState(vector);
+        if (state === null) {
+            continue;
+        }
+        vehicles.push({
+            id: getVehicleId("airplane", state.icao24),
+            kind: "airplane",
+            lat: state.latitude,
+            lng: state.longitude,
+            heading: state.trueTrack,
+            speed: state.velocity,
+            lastSeen: receivedAt,
+            attributes: {
+                icao24: state.icao24,
+                callsign: state.callsign,
+                originCountry: state.originCountry || undefined,
+                positionTime: (state.timePosition ?? state.lastContact) * 1000,
+                altitudeMeters: state.baroAltitude ?? state.geoAltitude,
+                geoAltitudeMeters: state.geoAltitude,
+                onGround: state.onGround,
+                verticalRateMetersPerSecond: state.verticalRate,
+                squawk: state.squawk,
+                spi: state.spi,
+                positionSource: state.positionSource,
+                category: state.category,
+            },
+        });
+    }
+    return vehicles;
+};
+
+/**
+ * Shift the position and last contact times (seconds) of each state vector
+ */
+const retimeOpenSky = (
+    message: DataSourceMessage<"OpenSky">,
+    offsetMs: number,
+): DataSourceMessage<"OpenSky"> => {
+    const offsetSeconds = Math.round(offsetMs / 1000);
+    const shift = (value: unknown) =>
+        typeof value === "number" ? value + offsetSeconds : value;
+    return {
+        ...message,
+        msg: {
+            ...message.msg,
+            states: message.msg.states.map((state) => {
+                const retimed = [...state];
+                retimed[3] = shift(state[3]);
+                retimed[4] = shift(state[4]);
+                return retimed;
+            }),
+        },
+    };
+};
+
+export const openSkyDataSource: DataSourceDefinition<"OpenSky"> = {
+    type: "OpenSky",
+    envVars: [],
+    optionalEnvVars: [
+        "OPENSKY_BASE_URL",
+        "OPENSKY_CLIENT_ID",
+        "OPENSKY_CLIENT_SECRET",
+        "OPENSKY_AUTH_URL",
+    ],
+    isPayload: (payload): payload is OpenSkyMessagePayload => {
+        return (
+            isRecord(payload) &&
+            Array.isArray(payload.states) &&
+            payload.states.every((state) => Array.isArray(state))
+        );
+    },
+    normalize: normalizeOpenSky,
+    retime: retimeOpenSky,
+    create: (config, broadcast, log, env) =>
+        new OpenSkySource(config, broadcast, log, {
+            baseUrl: env.OPENSKY_BASE_URL ?? DEFAULT_OPENSKY_BASE_URL,
+            credentials:
+                env.OPENSKY_CLIENT_ID && env.OPENSKY_CLIENT_SECRET
+                    ? {
+                          clientId: env.OPENSKY_CLIENT_ID,
+                          clientSecret: env.OPENSKY_CLIENT_SECRET,
+                          authUrl:
+                              env.OPENSKY_AUTH_URL ?? DEFAULT_OPENSKY_AUTH_URL,
+                      }
+                    : undefined,
+        }),
+};
@@ -0,0 +1,96 @@
+/**
+ * Records data source messages to disk, so that sessions can be replayed later
+ * with `ReplaySource`
+ *
+ * Recordings are NDJSON files with one `RecordedMessage` per line.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    isRecord,
+    type DataSourceMessage,
+    type MessageType,
+} from "./dataSource";
+
+export interface RecordedMessage {
+    // Unix timestamp (ms) of when the message was broadcast
+    time: number;
+    // Key of the region tile the message was broadcast for
+    region: string;
+    message: DataSourceMessage<MessageType>;
+}
+
+export const isRecordedMessage = (value: unknown): value is RecordedMessage => {
+    return (
+        isRecord(value) &&
+        typeof value.time === "number" &&
+        typeof value.region === "string" &&
+        isRecord(value.message) &&
+        typeof value.message.t === "string"
+    );
+};
+
+export class Recorder {
+    // Unset once writing has failed, after which nothing more is recorded
+    private stream?: fs.WriteStream;
+
+    constructor(filePath: string) {
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        } catch (e) {
+            this.disable(e);
+            return;
+        }
+        // Append, so that restarting the server doesn't lose what was recorded
+        const stream = fs.createWriteStream(filePath, { flags: "a" });
+        stream.on("error", (e) => {
+            if (this.stream === stream) {
+                this.disable(e);
+            }
+        });
+        this.stream = stream;
+    }
+
+    /**
+     * Wrap a region's broadcast function so that everything it's called with
+     * is also recorded
+     */
+    wrap(
+        region: string,
+        broadcast: <T extends MessageType>(
+            message: DataSourceMessage<T>,
+        ) => void,
+    ): <T extends MessageType>(message: DataSourceMessage<T>) => void {
+        return (message) => {
+            const recorded: RecordedMessage = {
+                time: Date.now(),
+                region,
+                message,
+            };
+            this.stream?.write(JSON.stringify(recorded) + "\n");
+            broadcast(message);
+        };
+    }
+
+    /**
+     * Stop recording, once everything recorded so far has been written
+     */
+    close(): Promise<void> {
+        const stream = this.stream;
+        this.stream = undefined;
+        if (stream === undefined) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => {
+            stream.end(resolve);
+        });
+    }
+
+    private disable(error: unknown) {
+        console.log("error writing recording, stopping recording", error);
+        const stream = this.stream;
+        this.stream = undefined;
+        stream?.destroy();
+    }
+}
@@ -0,0 +1,179 @@
+/**
+ * Fixed region grid shared by every client.
+ *
+ * Requested viewports are snapped onto tiles of `TILE_SIZE_DEGREES` so that
+ * clients looking at roughly the same area end up sharing the same data
+ * sources, instead of each arbitrary viewport starting its own fetchers.
+ */
+
+import type { VehicleKind } from "./vehicles";
+
+export type Bounds = {
+    maxLat: number;
+    minLat: number;
+    maxLng: number;
+    minLng: number;
+};
+
+export interface Tile {
+    key: string;
+    bounds: Bounds;
+}
+
+export const TILE_SIZE_DEGREES = 0.5;
+
+// Upper bound on how many tiles a viewport can span in each direction. Each
+// tile runs its own set of data sources, so zooming way out shouldn't start
+// dozens of them.
+export const MAX_TILES_PER_SIDE = 2;
+
+const getTileKey = (latIndex: number, lngIndex: number): string => {
+    return `${latIndex}:${lngIndex}`;
+};
+
+const getTileBounds = (latIndex: number, lngIndex: number): Bounds => {
+    return {
+        minLat: latIndex * TILE_SIZE_DEGREES,
+        maxLat: (latIndex + 1) * TILE_SIZE_DEGREES,
+        minLng: lngIndex * TILE_SIZE_DEGREES,
+        maxLng: (lngIndex + 1) * TILE_SIZE_DEGREES,
+    };
+};
+
+/**
+ * Get the range of tile indices covering [min, max], trimmed down to the
+ * `MAX_TILES_PER_SIDE` tiles closest to the center of the range.
+ */
+const getIndexRange = (min: number, max: number): [number, number] => {
+    const first = Math.floor(min / TILE_SIZE_DEGREES);
+    const last = Math.max(first, Math.ceil(max / TILE_SIZE_DEGREES) - 1);
+    if (last - first + 1 <= MAX_TILES_PER_SIDE) {
+        return [first, last];
+    }
+    const center = (min + max) / 2 / TILE_SIZE_DEGREES;
+    const start = Math.round(center - MAX_TILES_PER_SIDE / 2);
+    return [start, start + MAX_TILES_PER_SIDE - 1];
+};
+
+/**
+ * Get the tiles that a viewport overlaps. Viewports larger than
+ * `MAX_TILES_PER_SIDE` tiles in either direction only get the tiles around
+ * their center.
+ */
+export const getTilesForBounds = (bounds: Bounds): Tile[] => {
+    const [minLatIndex, maxLatIndex] = getIndexRange(
+        bounds.minLat,
+        bounds.maxLat,
+    );
+    const [minLngIndex, maxLngIndex] = getIndexRange(
+        bounds.minLng,
+        bounds.maxLng,
+    );
+
+    const tiles: Tile[] = [];
+    for (let latIndex = minLatIndex; latIndex <= maxLatIndex; latIndex++) {
+        for (let lngIndex = minLngIndex; lngIndex <= maxLngIndex; lngIndex++) {
+            tiles.push({
+                key: getTileKey(latIndex, lngIndex),
+                bounds: getTileBounds(latIndex, lngIndex),
+            });
+        }
+    }
+    return tiles;
+};
+
+/**
+ * Get the smallest bounds that contain all of the given tiles
+ */
+export const getBoundsForTiles = (tiles: Tile[]): Bounds | null => {
+    if (tiles.length === 0) {
+        return null;
+    }
+    return {
+        minLat: Math.min(...tiles.map((tile) => tile.bounds.minLat)),
+        maxLat: Math.max(...tiles.map((tile) => tile.bounds.maxLat)),
+        minLng: Math.min(...tiles.map((tile) => tile.bounds.minLng)),
+        maxLng: Math.max(...tiles.map((tile) => tile.bounds.maxLng)),
+    };
+};
+
+/**
+ * Whether two bounds share any area
+ */
+export const boundsOverlap = (a: Bounds, b: Bounds): boolean => {
+    return (
+        a.minLat < b.maxLat &&
+        b.minLat < a.maxLat &&
+        a.minLng < b.maxLng &&
+        b.minLng < a.maxLng
+    );
+};
+
+/**
+ * Whether a point is inside bounds, including their edges
+ */
+export const isPointInBounds = (
+    lat: number,
+    lng: number,
+    bounds: Bounds,
+): boolean => {
+    return (
+        lat >= bounds.minLat &&
+        lat <= bounds.maxLat &&
+        lng >= bounds.minLng &&
+        lng <= bounds.maxLng
+    );
+};
+
+/**
+ * Whether `inner` is entirely inside `outer`
+ */
+export const containsBounds = (outer: Bounds, inner: Bounds): boolean => {
+    return (
+        outer.minLat <= inner.minLat &&
+        outer.maxLat >= inner.maxLat &&
+        outer.minLng <= inner.minLng &&
+        outer.maxLng >= inner.maxLng
+    );
+};
+
+/**
+ * Get the tile for a key produced by `getTilesForBounds`, or null if the key
+ * isn't a valid tile.
+ */
+export const getTileForKey = (key: string): Tile | null => {
+    const match = key.match(/^(-?\d+):(-?\d+)$/);
+    if (!match) {
+        return null;
+    }
+    const latIndex = parseInt(match[1], 10);
+    const lngIndex = parseInt(match[2], 10);
+    const bounds = getTileBounds(latIndex, lngIndex);
+    if (
+        bounds.minLat < -90 ||
+        bounds.maxLat > 90 ||
+        bounds.minLng < -180 ||
+        bounds.maxLng > 180
+    ) {
+        return null;
+    }
+    return { key: getTileKey(latIndex, lngIndex), bounds };
+};
+
+// Messages the client sends to change which tiles it gets updates for
+export interface SubscriptionRequest {
+    t: "Subscribe" | "Unsubscribe";
+    msg: { regions: string[] };
+}
+
+// Messages the server sends back with the tiles that were actually
+// subscribed to or unsubscribed from
+export interface SubscriptionResponse {
+    t: "Subscribed" | "Unsubscribed";
+    msg: {
+        regions: string[];
+        // How long the server keeps each kind of vehicle, so that clients
+        // fade and drop them on the same schedule. Only sent with Subscribed.
+        vehicleTtlMs?: Record<VehicleKind, number>;
+    };
+}
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as readline from "readline";
+import type {
+    DataSource,
+    DataSourceConfig,
+    DataSourceMessage,
+    Logger,
+    MessageType,
+} from "./dataSource";
+import { getPayloadDefinition } from "./index";
+import { isRecordedMessage } from "./recorder";
+
+export interface ReplayConfig {
+    // Recording made by `Recorder`
+    path: string;
+    // Only messages recorded for this region are played back
+    region: string;
+    // How much faster than real time to play the recording, e.g. 1 or 4
+    speed: number;
+}
+
+/**
+ * Plays back a recording made by `Recorder`, in place of the live data sources
+ *
+ * Messages are broadcast with the same spacing they were recorded with,
+ * divided by the playback speed. Timestamps inside the payloads are shifted by
+ * each source's `retime` by however long ago the message was recorded, so
+ * they're as fresh as when they were recorded.
+ */
+export class ReplaySource implements DataSource {
+    private broadcast: <T extends MessageType>(
+        message: DataSourceMessage<T>,
+    ) => void;
+    private log: Logger;
+    private replayConfig: ReplayConfig;
+    private lines?: readline.Interface;
+    private stopped = false;
+    private timeoutId?: NodeJS.Timeout;
+    private wake?: () => void;
+
+    constructor(
+        _config: DataSourceConfig,
+        broadcast: <T extends MessageType>(
+            message: DataSourceMessage<T>,
+        ) => void,
+        log: Logger,
+        replayConfig: ReplayConfig,
+    ) {
+        this.broadcast = broadcast;
+        this.log = log;
+        this.replayConfig = replayConfig;
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            this.wake = resolve;
+            this.timeoutId = setTimeout(resolve, ms);
+        });
+    }
+
+    private async play(): Promise<void> {
+        const { path, region, speed } = this.replayConfig;
+        this.log(`Replaying ${path} at ${speed}x`);
+        this.lines = readline.createInterface({
+            input: fs.createReadStream(path),
+            crlfDelay: Infinity,
+        });
+
+        const startTime = Date.now();
+        let firstRecordedTime: number | null = null;
+        let count = 0;
+        for await (const line of this.lines) {
+            if (this.stopped) {
+                break;
+            }
+            if (line.trim() === "") {
+                continue;
+            }
+
+            let recorded: unknown;
+            try {
+                recorded = JSON.parse(line);
+            } catch {
+                this.log("Skipping unparseable line in recording");
+                continue;
+            }
+            if (!isRecordedMessage(recorded) || recorded.region !== region) {
+                continue;
+            }
+            const { message } = recorded;
+            const definition = getPayloadDefinition(message);
+            if (definition === undefined) {
+                this.log(
+                    `Skipping unrecognized ${message.t} message in recording`,
+                );
+                continue;
+            }
+
+            firstRecordedTime ??= recorded.time;
+            const delay =
+                (recorded.time - firstRecordedTime) / speed -
+                (Date.now() - startTime);
+            if (delay > 0) {
+                await this.sleep(delay);
+            }
+            if (this.stopped) {
+                break;
+            }
+            const offsetMs = Date.now() - recorded.time;
+            this.broadcast(
+                definition.retime
+                    ? definition.retime(message, offsetMs)
+                    : message,
+            );
+            count++;
+        }
+        this.log(`Finished replaying ${count} messages`);
+    }
+
+    start(): void {
+        this.stopped = false;
+        this.play().catch((e) => {
+            this.log("Error replaying recording", e);
+        });
+    }
+
+    stop(): void {
+        this.log("Stopping replay");
+        this.stopped = true;
+        clearTimeout(this.timeoutId);
+        this.wake?.();
+        this.lines?.close();
+    }
+}
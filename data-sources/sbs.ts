@@ -0,0 +1,81 @@
+/**
+ * Parsing for the SBS-1 "BaseStation" format that dump1090 and readsb stream
+ * on port 30003
+ *
+ * Each line is one message from one aircraft, and only has the fields that
+ * kind of message carries, e.g. a callsign or a position but not both. See:
+ * http://woodair.net/sbs/article/barebones42_socket_data.htm
+ */
+
+export interface SBSReport {
+    // ICAO address in lowercase hex
+    hex: string;
+    callsign?: string;
+    altitudeFeet?: number;
+    groundSpeedKnots?: number;
+    track?: number;
+    lat?: number;
+    lon?: number;
+    verticalRateFeetPerMinute?: number;
+    squawk?: string;
+    spi?: boolean;
+    onGround?: boolean;
+}
+
+// Indices of the fields in a line
+const TRANSMISSION_TYPE = 1;
+const HEX_IDENT = 4;
+const CALLSIGN = 10;
+const ALTITUDE = 11;
+const GROUND_SPEED = 12;
+const TRACK = 13;
+const LATITUDE = 14;
+const LONGITUDE = 15;
+const VERTICAL_RATE = 16;
+const SQUAWK = 17;
+const SPI = 20;
+const IS_ON_GROUND = 21;
+
+const parseNumber = (field: string | undefined): number | undefined => {
+    if (!field?.trim()) {
+        return undefined;
+    }
+    const value = Number(field);
+    return Number.isFinite(value) ? value : undefined;
+};
+
+const parseString = (field: string | undefined): string | undefined => {
+    const trimmed = field?.trim();
+    return trimmed ? trimmed : undefined;
+};
+
+// Flags are "-1" when set and "0" when not, though some decoders write "1"
+const parseFlag = (field: string | undefined): boolean | undefined => {
+    const value = parseNumber(field);
+    return value === undefined ? undefined : value !== 0;
+};
+
+/**
+ * Parse a line of an SBS-1 stream, or return null if it isn't a transmission
+ * message ("MSG") about an aircraft
+ */
+export const parseSBSLine = (line: string): SBSReport | null => {
+    const fields = line.trim().split(",");
+    const hex = parseString(fields[HEX_IDENT])?.toLowerCase();
+    if (fields[0] !== "MSG" || !fields[TRANSMISSION_TYPE] || !hex) {
+        return null;
+    }
+    return {
+        hex,
+        callsign: parseString(fields[CALLSIGN]),
+        altitudeFeet: parseNumber(fields[ALTITUDE]),
+        groundSpeedKnots: parseNumber(fields[GROUND_SPEED]),
+        track: parseNumber(fields[TRACK]),
+        lat: parseNumber(fields[LATITUDE]),
+        lon: parseNumber(fields[LONGITUDE]),
+        verticalRateFeetPerMinute: parseNumber(fields[VERTICAL_RATE]),
+        squawk: parseString(fields[SQUAWK]),
+        spi: parseFlag(fields[SPI]),
+        onGround: parseFlag(fields[IS_ON_GROUND]),
+    };
+};
@@ -0,0 +1,48 @@
+/**
+ * Breadcrumb trails of where each vehicle has recently been
+ *
+ * The server keeps a short trail per vehicle and sends it along with
+ * keyframes, so a client that just subscribed can draw where vehicles came
+ * from. After that, clients extend the trails themselves from position deltas.
+ */
+
+export interface TrailPoint {
+    lat: number;
+    lng: number;
+    // Unix timestamp (ms) of when the vehicle was here
+    time: number;
+}
+
+// Trails are capped both by length and by age, so that fast movers and
+// vehicles that sit still for a while don't clutter the map.
+export const MAX_TRAIL_POINTS = 20;
+export const MAX_TRAIL_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * Drop points that are too old or beyond the length cap, oldest first
+ */
+export const trimTrail = (trail: TrailPoint[], now: number): TrailPoint[] => {
+    const recent = trail.filter(
+        (point) => now - point.time <= MAX_TRAIL_AGE_MS,
+    );
+    return recent.slice(-MAX_TRAIL_POINTS);
+};
+
+/**
+ * Add a point to the end of a trail, returning the new trail. Points where the
+ * vehicle hasn't moved are skipped.
+ */
+export const appendTrailPoint = (
+    trail: TrailPoint[],
+    point: TrailPoint,
+): TrailPoint[] => {
+    const last = trail[trail.length - 1];
+    if (
+        last !== undefined &&
+        last.lat === point.lat &&
+        last.lng === point.lng
+    ) {
+        return trail;
+    }
+    return trimTrail([...trail, point], point.time);
+};
@@ -0,0 +1,45 @@
+/**
+ * A size-limited cache whose entries each expire after their own TTL
+ *
+ * Once it's full, the least recently used entry is evicted to make room. A
+ * Map iterates in insertion order, so entries are re-inserted when they're
+ * used to keep the least recently used one first.
+ */
+export class TTLCache<K, V> {
+    private entries = new Map<K, { value: V; expiresAt: number }>();
+    private maxEntries: number;
+
+    constructor(maxEntries: number) {
+        this.maxEntries = maxEntries;
+    }
+
+    get(key: K, now: number = Date.now()): V | undefined {
+        const entry = this.entries.get(key);
+        if (entry === undefined) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (entry.expiresAt <= now) {
+            return undefined;
+        }
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: K, value: V, ttlMs: number, now: number = Date.now()): void {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: now + ttlMs });
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as K;
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: K): void {
+        this.entries.delete(key);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * Delta encoding for vehicle updates sent over the websocket
+ *
+ * The server only sends the fields of a vehicle that changed since the last
+ * message, and clients apply those changes to the vehicle they already have.
+ */
+
+import type {
+    Vehicle,
+    VehicleKind,
+    VehicleOfKind,
+    VehicleUpdate,
+} from "./vehicles";
+
+const TOP_LEVEL_FIELDS = [
+    "lat",
+    "lng",
+    "heading",
+    "speed",
+    "lastSeen",
+] as const;
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b) {
+        return true;
+    }
+    // Nested values (e.g. a train's stations) are compared structurally
+    return (
+        typeof a === "object" &&
+        typeof b === "object" &&
+        JSON.stringify(a) === JSON.stringify(b)
+    );
+};
+
+/**
+ * Get the fields that changed between two versions of the same vehicle, or
+ * null if nothing changed
+ */
+export const diffVehicles = (
+    previous: Vehicle,
+    vehicle: Vehicle,
+): VehicleUpdate | null => {
+    const changes: VehicleUpdate = {};
+    let changed = false;
+    for (const field of TOP_LEVEL_FIELDS) {
+        if (!isSameValue(previous[field], vehicle[field])) {
+            changes[field] = vehicle[field] ?? null;
+            changed = true;
+        }
+    }
+
+    const previousAttributes = previous.attributes as object as Record<
+        string,
+        unknown
+    >;
+    const attributes = vehicle.attributes as object as Record<string, unknown>;
+    const attributeChanges: Record<string, unknown> = {};
+    const keys = new Set([
+        ...Object.keys(previousAttributes),
+        ...Object.keys(attributes),
+    ]);
+    for (const key of keys) {
+        if (!isSameValue(previousAttributes[key], attributes[key])) {
+            attributeChanges[key] = attributes[key] ?? null;
+        }
+    }
+    if (Object.keys(attributeChanges).length > 0) {
+        changes.attributes = attributeChanges;
+        changed = true;
+    }
+
+    return changed ? changes : null;
+};
+
+const applyFields = (
+    target: Record<string, unknown>,
+    changes: Record<string, unknown>,
+) => {
+    for (const [key, value] of Object.entries(changes)) {
+        if (value === null) {
+            delete target[key];
+        } else {
+            target[key] = value;
+        }
+    }
+};
+
+/**
+ * Apply changes from `diffVehicles` to a vehicle, returning the new vehicle
+ */
+export const applyVehicleUpdate = <V extends VehicleOfKind<VehicleKind>>(
+    vehicle: V,
+    changes: VehicleUpdate,
+): V => {
+    const { attributes: attributeChanges, ...fieldChanges } = changes;
+    const updated = { ...vehicle } as Record<string, unknown>;
+    applyFields(updated, fieldChanges);
+    if (attributeChanges !== undefined) {
+        const attributes: Record<string, unknown> = { ...vehicle.attributes };
+        applyFields(attributes, attributeChanges);
+        updated.attributes = attributes;
+    }
+    return updated as V;
+};
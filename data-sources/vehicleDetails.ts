@@ -0,0 +1,97 @@
+/**
+ * Remembers details that sources only report about a vehicle now and then,
+ * and fills them in on the reports that leave them out
+ *
+ * AIS vessels only send their name, type and dimensions every few minutes,
+ * and an aircraft's emitter category only comes from some sources (e.g. a
+ * local ADS-B receiver, but rarely anonymous OpenSky). Details are kept on
+ * disk, so vehicles don't come back nameless after a restart.
+ */
+
+import type { DiskCache } from "./diskCache";
+import type { Vehicle, VehicleKind } from "./vehicles";
+
+export type VehicleDetails = Record<string, unknown>;
+
+// Attributes that describe the vehicle itself rather than where it is, by
+// kind. Kinds that aren't listed have nothing worth remembering.
+const DETAIL_ATTRIBUTES: Partial<Record<VehicleKind, string[]>> = {
+    airplane: ["category"],
+    boat: [
+        "shipName",
+        "shipType",
+        "imo",
+        "callSign",
+        "destination",
+        "eta",
+        "lengthMeters",
+        "beamMeters",
+    ],
+};
+
+// Vessels change their destination every voyage, but an aircraft's category
+// only changes if its transponder is moved
+const DETAILS_TTL_MS: Partial<Record<VehicleKind, number>> = {
+    airplane: 30 * 24 * 60 * 60 * 1000,
+    boat: 7 * 24 * 60 * 60 * 1000,
+};
+
+// How often a vehicle that's still around has its details' expiry pushed
+// back, so that seeing it every few seconds doesn't rewrite them each time
+const DETAILS_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+const isMissing = (value: unknown): boolean => {
+    return value === undefined || value === "";
+};
+
+export class VehicleDetailsCache {
+    private diskCache: DiskCache<VehicleDetails>;
+
+    constructor(diskCache: DiskCache<VehicleDetails>) {
+        this.diskCache = diskCache;
+    }
+
+    /**
+     * Remember the details a vehicle's report has, and fill in the ones it
+     * doesn't from what was reported before
+     */
+    enrich(vehicle: Vehicle): Vehicle {
+        const fields = DETAIL_ATTRIBUTES[vehicle.kind];
+        const ttlMs = DETAILS_TTL_MS[vehicle.kind];
+        if (fields === undefined || ttlMs === undefined) {
+            return vehicle;
+        }
+        const attributes = vehicle.attributes as object as Record<
+            string,
+            unknown
+        >;
+        const now = Date.now();
+        const entry = this.diskCache.get(vehicle.id, now);
+        const stored = entry?.value ?? {};
+        const details = { ...stored };
+        const missing: VehicleDetails = {};
+        for (const field of fields) {
+            if (!isMissing(attributes[field])) {
+                details[field] = attributes[field];
+            } else if (!isMissing(stored[field])) {
+                missing[field] = stored[field];
+            }
+        }
+        // Only write to disk when something's changed, or to keep a vehicle
+        // that's still around from expiring
+        if (
+            JSON.stringify(details) !== JSON.stringify(stored) ||
+            (entry !== undefined &&
+                now - (entry.expiresAt - ttlMs) > DETAILS_REFRESH_MS)
+        ) {
+            this.diskCache.set(vehicle.id, details, ttlMs, now);
+        }
+        if (Object.keys(missing).length === 0) {
+            return vehicle;
+        }
+        return {
+            ...vehicle,
+            attributes: { ...vehicle.attributes, ...missing },
+        } as Vehicle;
+    }
+}
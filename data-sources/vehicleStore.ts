@@ -0,0 +1,177 @@
+/**
+ * Server-side state of every vehicle in a region
+ *
+ * Data source messages are normalized into `Vehicle` records and merged in
+ * here, which makes this the one place that dedupes vehicles and expires ones
+ * we haven't heard about in a while. Vehicles are kept around until their
+ * kind's TTL runs out, even if a source stops reporting them before then.
+ * It also keeps a short trail of where each vehicle has recently been.
+ */
+
+import type { DataSourceMessage, MessageType } from "./dataSource";
+import { normalizeMessage } from "./normalize";
+import { appendTrailPoint, trimTrail, type TrailPoint } from "./trails";
+import {
+    MERGE_VEHICLE_REPORTS,
+    type Vehicle,
+    type VehicleKind,
+} from "./vehicles";
+
+export type VehicleChange =
+    | { type: "add"; vehicle: Vehicle }
+    | { type: "update"; vehicle: Vehicle; previous: Vehicle }
+    | { type: "remove"; vehicle: Vehicle };
+
+export interface VehicleStoreOptions {
+    // How long to keep each kind of vehicle after we last heard about it
+    ttlMs: Record<VehicleKind, number>;
+    // Fill in details about a vehicle that its source doesn't report, e.g. an
+    // aircraft's type from the aircraft database
+    enrich?: (vehicle: Vehicle) => Vehicle;
+}
+
+const isSameVehicle = (a: Vehicle, b: Vehicle): boolean => {
+    return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const withoutUndefined = (values: object): Record<string, unknown> => {
+    return Object.fromEntries(
+        Object.entries(values).filter(([, value]) => value !== undefined),
+    );
+};
+
+/**
+ * Fill in the fields a partial report of a vehicle didn't have from what we
+ * already knew about it
+ */
+const mergeReports = (previous: Vehicle, vehicle: Vehicle): Vehicle => {
+    return {
+        ...previous,
+        ...withoutUndefined(vehicle),
+        attributes: {
+            ...previous.attributes,
+            ...withoutUndefined(vehicle.attributes),
+        },
+    } as Vehicle;
+};
+
+export class VehicleStore {
+    private options: VehicleStoreOptions;
+    private vehicles = new Map<string, Vehicle>();
+    private trails = new Map<string, TrailPoint[]>();
+
+    constructor(options: VehicleStoreOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Normalize a data source message and merge it into the store
+     */
+    ingest<T extends MessageType>(
+        message: DataSourceMessage<T>,
+        receivedAt: number = Date.now(),
+    ): VehicleChange[] {
+        const vehicles = normalizeMessage(message, receivedAt);
+        const { enrich } = this.options;
+        return this.upsert(enrich ? vehicles.map(enrich) : vehicles);
+    }
+
+    /**
+     * Add or update vehicles. If the same vehicle is reported more than once,
+     * only its most recent report is kept, unless its kind is reported
+     * piecemeal, in which case the reports are merged.
+     */
+    upsert(vehicles: Vehicle[]): VehicleChange[] {
+        const latest = new Map<string, Vehicle>();
+        for (const vehicle of vehicles) {
+            const existing = latest.get(vehicle.id);
+            if (!existing || existing.lastSeen <= vehicle.lastSeen) {
+                latest.set(
+                    vehicle.id,
+                    existing && MERGE_VEHICLE_REPORTS[vehicle.kind]
+                        ? mergeReports(existing, vehicle)
+                        : vehicle,
+                );
+            }
+        }
+
+        const changes: VehicleChange[] = [];
+        for (const report of latest.values()) {
+            const previous = this.vehicles.get(report.id);
+            const vehicle =
+                previous && MERGE_VEHICLE_REPORTS[report.kind]
+                    ? mergeReports(previous, report)
+                    : report;
+            if (previous === undefined) {
+                this.vehicles.set(vehicle.id, vehicle);
+                this.addTrailPoint(vehicle);
+                changes.push({ type: "add", vehicle });
+                continue;
+            }
+            // Don't let an older report clobber a newer one
+            if (
+                previous.lastSeen > vehicle.lastSeen ||
+                isSameVehicle(previous, vehicle)
+            ) {
+                continue;
+            }
+            this.vehicles.set(vehicle.id, vehicle);
+            this.addTrailPoint(vehicle);
+            changes.push({ type: "update", vehicle, previous });
+        }
+        return changes;
+    }
+
+    /**
+     * Remove every vehicle we haven't heard about within its kind's TTL
+     */
+    expire(now: number = Date.now()): VehicleChange[] {
+        const changes: VehicleChange[] = [];
+        for (const [id, vehicle] of this.vehicles) {
+            if (now - vehicle.lastSeen > this.options.ttlMs[vehicle.kind]) {
+                this.vehicles.delete(id);
+                this.trails.delete(id);
+                changes.push({ type: "remove", vehicle });
+            }
+        }
+        return changes;
+    }
+
+    private addTrailPoint(vehicle: Vehicle) {
+        const trail = this.trails.get(vehicle.id) ?? [];
+        this.trails.set(
+            vehicle.id,
+            appendTrailPoint(trail, {
+                lat: vehicle.lat,
+                lng: vehicle.lng,
+                time: vehicle.lastSeen,
+            }),
+        );
+    }
+
+    /**
+     * Get the recent trail of every vehicle that has one, keyed by vehicle id
+     */
+    getTrails(now: number = Date.now()): Record<string, TrailPoint[]> {
+        const trails: Record<string, TrailPoint[]> = {};
+        for (const [id, trail] of this.trails) {
+            const recent = trimTrail(trail, now);
+            if (recent.length > 0) {
+                trails[id] = recent;
+            }
+        }
+        return trails;
+    }
+
+    getVehicles(kind?: VehicleKind): Vehicle[] {
+        const vehicles = Array.from(this.vehicles.values());
+        if (kind === undefined) {
+            return vehicles;
+        }
+        return vehicles.filter((vehicle) => vehicle.kind === kind);
+    }
+
+    get size(): number {
+        return this.vehicles.size;
+    }
+}
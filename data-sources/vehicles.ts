@@ -0,0 +1,166 @@
+/**
+ * Normalized vehicle records
+ *
+ * Every data source's payload is normalized into one of these on the server,
+ * so clients get the same shape no matter where a vehicle was reported from.
+ * Source-specific details live in `attributes`.
+ */
+
+import type { FlightRoute } from "./flightRoute";
+import type { AmtrakerTrain } from "./messagePayloads";
+import type { TrainSegment } from "./mta-segment";
+import type { TrailPoint } from "./trails";
+
+export type VehicleKind = "airplane" | "boat" | "train" | "transit";
+
+// How an aircraft's position was determined: broadcast by the aircraft itself
+// (ADS-B, FLARM), by multilateration of its transponder replies (MLAT), or
+// from air traffic control (ASTERIX)
+export type AircraftPositionSource = "ADS-B" | "ASTERIX" | "MLAT" | "FLARM";
+
+export interface AirplaneAttributes {
+    // Transponder address in lowercase hex, e.g. "a1b2c3"
+    icao24: string;
+    // Trimmed, e.g. "DAL402". Not every aircraft sends one.
+    callsign?: string;
+    // Country the transponder address is registered to
+    originCountry?: string;
+    // Unix timestamp (ms) of the position report itself
+    positionTime: number;
+    // Barometric altitude, or geometric altitude if that's all there is.
+    // Missing when neither was reported, which is common on the ground.
+    altitudeMeters?: number;
+    // Altitude from GPS, which drifts from barometric altitude with the weather
+    geoAltitudeMeters?: number;
+    onGround: boolean;
+    // Positive when climbing
+    verticalRateMetersPerSecond?: number;
+    squawk?: string;
+    // Set while the pilot has pressed "ident" at a controller's request
+    spi?: boolean;
+    positionSource?: AircraftPositionSource;
+    // ADS-B emitter category, e.g. 8 for rotorcraft. See aircraftTypes.ts.
+    category?: number;
+    // ICAO type designator, e.g. "B738", from the aircraft database
+    typecode?: string;
+    // Airline, origin and destination, once the callsign's been looked up
+    route?: FlightRoute;
+}
+
+export interface BoatAttributes {
+    // Missing until the vessel has sent a name, which not every report has
+    shipName?: string;
+    mmsi: number;
+    // Degrees from north. Either can be missing, and they differ when the
+    // vessel is drifting or being pushed by a current.
+    trueHeading?: number;
+    courseOverGround?: number;
+    // AIS codes, see ais-codes.ts
+    navigationalStatus?: number;
+    shipType?: number;
+    imo?: number;
+    callSign?: string;
+    destination?: string;
+    // Estimated time of arrival at the destination. AIS leaves out the year.
+    eta?: { month: number; day: number; hour: number; minute: number };
+    lengthMeters?: number;
+    beamMeters?: number;
+}
+
+export interface TrainAttributes {
+    trainID: string;
+    trainNum: number;
+    routeName: string;
+    trainTimely: string;
+    stations: AmtrakerTrain["stations"];
+}
+
+export interface TransitAttributes {
+    tripId: string;
+    routeId: string;
+    routeColor?: string;
+    direction: number;
+    nextStop?: string;
+    lastStop?: string;
+    progress?: number;
+    segment?: TrainSegment;
+}
+
+export interface VehicleAttributes {
+    airplane: AirplaneAttributes;
+    boat: BoatAttributes;
+    train: TrainAttributes;
+    transit: TransitAttributes;
+}
+
+export interface VehicleOfKind<K extends VehicleKind> {
+    // Unique across all kinds, e.g. "airplane:a1b2c3"
+    id: string;
+    kind: K;
+    lat: number;
+    lng: number;
+    heading?: number; // Bearing in degrees (0 = North, 90 = East, 180 = South, 270 = West)
+    speed?: number; // Meters per second
+    // Unix timestamp (ms) of when we last heard about this vehicle
+    lastSeen: number;
+    attributes: VehicleAttributes[K];
+}
+
+export type Vehicle = {
+    [K in VehicleKind]: VehicleOfKind<K>;
+}[VehicleKind];
+
+// How long to keep showing a vehicle after we last heard about it. Sources
+// that report more often can go stale sooner.
+export const DEFAULT_VEHICLE_TTL_MS: Record<VehicleKind, number> = {
+    airplane: 10 * 60 * 1000,
+    boat: 15 * 60 * 1000,
+    train: 5 * 60 * 1000,
+    transit: 2 * 60 * 1000,
+};
+
+// Kinds whose sources report each vehicle piecemeal, e.g. AIS sends a vessel's
+// position and its name and destination in separate messages. A report of one
+// of these only has some of the vehicle's fields, and the rest are kept from
+// earlier reports.
+export const MERGE_VEHICLE_REPORTS: Record<VehicleKind, boolean> = {
+    airplane: false,
+    boat: true,
+    train: false,
+    transit: false,
+};
+
+export const getVehicleId = (kind: VehicleKind, sourceId: string): string => {
+    return `${kind}:${sourceId}`;
+};
+
+// Changed fields of a vehicle. Optional fields that went away are sent as null.
+export type VehicleUpdate = {
+    [F in "lat" | "lng" | "heading" | "speed" | "lastSeen"]?: Vehicle[F] | null;
+} & {
+    attributes?: Record<string, unknown>;
+};
+
+export type VehicleOp =
+    | { op: "add"; vehicle: Vehicle }
+    | { op: "update"; id: string; changes: VehicleUpdate }
+    | { op: "remove"; id: string };
+
+// Sent to clients with the changes to a region since the last message
+export interface VehicleDeltaMessage {
+    t: "VehicleDelta";
+    msg: { ops: VehicleOp[] };
+    // Key of the region tile these vehicles are in
+    region: string;
+}
+
+// Sent to clients with every vehicle in a region, replacing whatever they had
+export interface VehicleKeyframeMessage {
+    t: "VehicleKeyframe";
+    // Trails are keyed by vehicle id, and only sent for vehicles that have one
+    msg: { vehicles: Vehicle[]; trails: Record<string, TrailPoint[]> };
+    // Key of the region tile these vehicles are in
+    region: string;
+}
+
+export type VehiclesMessage = VehicleDeltaMessage | VehicleKeyframeMessage;
@@ -0,0 +1,525 @@
+/**
+ * A local stand-in for the upstream APIs the data sources read from, so that
+ * the app can run without network access or API keys
+ *
+ * It serves OpenSky state vectors, Amtraker trains, an AISStream websocket,
+ * the MTA's GTFS-RT feeds and static GTFS ZIPs and adsbdb's flight routes, all
+ * built from the fixtures next to this file. Vehicles move along their
+ * headings (or down the line, for the subway) so that the map isn't static. It
+ * also replays recordings of an ADS-B receiver's SBS-1 output and an AIS
+ * receiver's NMEA sentences over TCP, each on a port of its own.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as net from "net";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import AdmZip from "adm-zip";
+import express from "express";
+import gtfsRealtimeBindings from "gtfs-realtime-bindings";
+import { WebSocketServer } from "ws";
+import { isPointInBounds, type Bounds } from "../data-sources/regions";
+
+const { transit_realtime } = gtfsRealtimeBindings;
+
+const FIXTURES_DIR = path.join(
+    path.dirname(fileURLToPath(import.meta.url)),
+    "fixtures",
+);
+
+export const DEFAULT_MOCK_UPSTREAM_PORT = 5175;
+export const DEFAULT_MOCK_SBS_PORT = 5176;
+export const DEFAULT_MOCK_AIS_NMEA_PORT = 5177;
+
+// Vehicles jump back to where their fixture starts them after this long, so
+// they don't wander off the map
+const LOOP_DURATION_MS = 15 * 60 * 1000;
+
+// How often each AISStream subscriber gets sent every vessel in its area
+const AIS_REPORT_INTERVAL_MS = 5 * 1000;
+// Vessels send their static data (name, destination, etc.) much less often
+// than their position, so only every this many reports
+const AIS_STATIC_DATA_EVERY = 6;
+
+// The SBS and NMEA fixtures are split into blocks separated by blank lines,
+// which are sent this often
+const SBS_FRAME_INTERVAL_MS = 1000;
+const AIS_NMEA_FRAME_INTERVAL_MS = 2000;
+
+const KNOTS_TO_METERS_PER_SECOND = 0.514444;
+const MPH_TO_METERS_PER_SECOND = 0.44704;
+const METERS_PER_DEGREE_LAT = 111320;
+
+const COMPASS_HEADINGS: Record<string, number> = {
+    N: 0,
+    NE: 45,
+    E: 90,
+    SE: 135,
+    S: 180,
+    SW: 225,
+    W: 270,
+    NW: 315,
+};
+
+// Header-only files, for the static GTFS feeds we don't have fixtures for
+const EMPTY_GTFS_FILES: Record<string, string> = {
+    "stops.txt": "stop_id,stop_name,stop_lat,stop_lon\n",
+    "shapes.txt": "shape_id,shape_pt_sequence,shape_pt_lat,shape_pt_lon\n",
+    "stop_times.txt":
+        "trip_id,stop_id,arrival_time,departure_time,stop_sequence\n",
+    "trips.txt": "route_id,trip_id,service_id,direction_id,shape_id\n",
+    "routes.txt": "route_id,route_short_name,route_long_name,route_color\n",
+};
+
+const GTFS_ZIP_FIXTURES: Record<string, string> = {
+    "gtfs_subway.zip": "subway",
+    "gtfslirr.zip": "lirr",
+    "gtfsmnr.zip": "mnr",
+};
+
+interface AISVesselFixture {
+    MMSI: number;
+    ShipName: string;
+    latitude: number;
+    longitude: number;
+    // Speed (knots) and course (degrees) over ground
+    Sog: number;
+    Cog: number;
+    TrueHeading: number;
+    NavigationalStatus?: number;
+    // Class B transponders send a different position report
+    ClassB?: boolean;
+    ShipStaticData: Record<string, unknown>;
+}
+
+interface MTATripFixture {
+    // Feed path under the feed base URL, unescaped, e.g. "nyct/gtfs-l"
+    feed: string;
+    tripId: string;
+    routeId: string;
+    stops: string[];
+    secondsBetweenStops: number;
+    // How far into its run the trip is at the top of each loop
+    offsetSeconds: number;
+}
+
+export interface MockUpstream {
+    port: number;
+    sbsPort: number;
+    aisNmeaPort: number;
+    // Environment variables that point every data source at this server
+    env: Record<string, string>;
+    close: () => Promise<void>;
+}
+
+/**
+ * Fill in the generated and logged date and time of an SBS line, which are
+ * left empty in the fixture
+ */
+const stampSBSLine = (line: string, date: Date): string => {
+    const fields = line.split(",");
+    const iso = date.toISOString();
+    const day = iso.slice(0, 10).replaceAll("-", "/");
+    const time = iso.slice(11, 23);
+    fields.splice(6, 4, day, time, day, time);
+    return fields.join(",");
+};
+
+const readFrames = (name: string): string[][] => {
+    return fs
+        .readFileSync(path.join(FIXTURES_DIR, name), "utf-8")
+        .split(/\n\s*\n/)
+        .map((frame) => frame.split("\n").filter((line) => line.trim()));
+};
+
+/**
+ * Create a TCP server that sends each frame of lines in turn, looping back to
+ * the first. Every connection hears the same frame at the same time, like
+ * clients of a real receiver.
+ */
+const createReplayServer = (
+    frames: string[][],
+    intervalMs: number,
+    formatLine: (line: string, now: Date) => string = (line) => line,
+): net.Server => {
+    const startTime = Date.now();
+    return net.createServer((socket) => {
+        const sendFrame = () => {
+            const frameIndex =
+                Math.floor((Date.now() - startTime) / intervalMs) %
+                frames.length;
+            const now = new Date();
+            for (const line of frames[frameIndex]) {
+                socket.write(formatLine(line, now) + "\r\n");
+            }
+        };
+        sendFrame();
+        const intervalId = setInterval(sendFrame, intervalMs);
+        socket.on("error", () => socket.destroy());
+        socket.on("close", () => clearInterval(intervalId));
+    });
+};
+
+const listen = (server: net.Server, port: number): Promise<number> => {
+    return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, "127.0.0.1", () => {
+            const address = server.address();
+            resolve(
+                typeof address === "object" && address !== null
+                    ? address.port
+                    : port,
+            );
+        });
+    });
+};
+
+const readFixture = <T>(name: string): T => {
+    return JSON.parse(
+        fs.readFileSync(path.join(FIXTURES_DIR, name), "utf-8"),
+    ) as T;
+};
+
+/**
+ * Move a point in a straight line, which is close enough over the few
+ * kilometers a fixture vehicle covers in a loop
+ */
+const advance = (
+    lat: number,
+    lng: number,
+    heading: number,
+    speedMetersPerSecond: number,
+    elapsedMs: number,
+): [number, number] => {
+    const meters = (speedMetersPerSecond * elapsedMs) / 1000;
+    const radians = (heading * Math.PI) / 180;
+    const dLat = (meters * Math.cos(radians)) / METERS_PER_DEGREE_LAT;
+    const dLng =
+        (meters * Math.sin(radians)) /
+        (METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180));
+    return [lat + dLat, lng + dLng];
+};
+
+const buildGTFSZip = (feedType: string): Buffer => {
+    const zip = new AdmZip();
+    const fixtureDir = path.join(FIXTURES_DIR, "gtfs", feedType);
+    for (const [name, emptyContent] of Object.entries(EMPTY_GTFS_FILES)) {
+        const fixturePath = path.join(fixtureDir, name);
+        const content = fs.existsSync(fixturePath)
+            ? fs.readFileSync(fixturePath)
+            : Buffer.from(emptyContent);
+        zip.addFile(name, content);
+    }
+    return zip.toBuffer();
+};
+
+/**
+ * Build a GTFS-RT feed where each fixture trip is partway down its list of
+ * stops, looping back to the start once it reaches the end
+ */
+const buildFeedMessage = (
+    trips: MTATripFixture[],
+    nowSeconds: number,
+): Uint8Array => {
+    const entity = trips.map((trip) => {
+        const runSeconds = (trip.stops.length - 1) * trip.secondsBetweenStops;
+        const intoRun = (nowSeconds + trip.offsetSeconds) % runSeconds;
+        const startTime = nowSeconds - intoRun;
+        return {
+            id: trip.tripId,
+            tripUpdate: {
+                trip: { tripId: trip.tripId, routeId: trip.routeId },
+                stopTimeUpdate: trip.stops.map((stopId, i) => {
+                    const time = startTime + i * trip.secondsBetweenStops;
+                    return {
+                        stopId,
+                        arrival: { time },
+                        departure: { time },
+                    };
+                }),
+            },
+        };
+    });
+    const message = transit_realtime.FeedMessage.create({
+        header: { gtfsRealtimeVersion: "2.0", timestamp: nowSeconds },
+        entity,
+    });
+    return transit_realtime.FeedMessage.encode(message).finish();
+};
+
+/**
+ * Start the mock upstream server on `port`, the SBS replay on `sbsPort` and
+ * the AIS NMEA replay on `aisNmeaPort`. Use port 0 to pick a free one.
+ */
+export const startMockUpstream = async (
+    port: number = DEFAULT_MOCK_UPSTREAM_PORT,
+    sbsPort: number = DEFAULT_MOCK_SBS_PORT,
+    aisNmeaPort: number = DEFAULT_MOCK_AIS_NMEA_PORT,
+): Promise<MockUpstream> => {
+    const openSky = readFixture<{ states: unknown[][] }>("opensky.json");
+    const amtraker = readFixture<
+        Record<
+            string,
+            Array<{
+                lat: number;
+                lon: number;
+                velocity?: number;
+                heading?: string;
+            }>
+        >
+    >("amtraker.json");
+    const { vessels } = readFixture<{ vessels: AISVesselFixture[] }>(
+        "aisstream.json",
+    );
+    const { trips } = readFixture<{ trips: MTATripFixture[] }>(
+        "mta-trips.json",
+    );
+    // adsbdb's responses, keyed by callsign
+    const adsbdb = readFixture<Record<string, unknown>>("adsbdb.json");
+
+    const startTime = Date.now();
+    const loopElapsedMs = () => (Date.now() - startTime) % LOOP_DURATION_MS;
+
+    const app = express();
+
+    // Any client credentials are accepted
+    app.post("/opensky/auth/token", (_req, res) => {
+        res.json({
+            access_token: "mock",
+            expires_in: 30 * 60,
+            token_type: "Bearer",
+        });
+    });
+
+    // Counts down like an account's daily credits, one per request
+    let openSkyCredits = 4000;
+    app.get("/opensky/states/all", (req, res) => {
+        const bounds: Bounds = {
+            minLat: Number(req.query.lamin ?? -90),
+            maxLat: Number(req.query.lamax ?? 90),
+            minLng: Number(req.query.lomin ?? -180),
+            maxLng: Number(req.query.lomax ?? 180),
+        };
+        const now = Math.floor(Date.now() / 1000);
+        const elapsedMs = loopElapsedMs();
+        const states = openSky.states
+            .map((fixture) => {
+                const state = [...fixture];
+                const [lat, lng] = advance(
+                    state[6] as number,
+                    state[5] as number,
+                    // Aircraft on the ground don't always report these
+                    (state[10] as number | null) ?? 0,
+                    (state[9] as number | null) ?? 0,
+                    elapsedMs,
+                );
+                state[3] = now;
+                state[4] = now;
+                state[5] = lng;
+                state[6] = lat;
+                return state;
+            })
+            .filter((state) =>
+                isPointInBounds(state[6] as number, state[5] as number, bounds),
+            );
+        openSkyCredits = Math.max(0, openSkyCredits - 1);
+        res.set("X-Rate-Limit-Remaining", String(openSkyCredits));
+        res.json({ time: now, states });
+    });
+
+    app.get("/amtraker/trains", (_req, res) => {
+        const elapsedMs = loopElapsedMs();
+        const routes = Object.fromEntries(
+            Object.entries(amtraker).map(([routeName, trains]) => [
+                routeName,
+                trains.map((train) => {
+                    const [lat, lon] = advance(
+                        train.lat,
+                        train.lon,
+                        COMPASS_HEADINGS[train.heading ?? "N"] ?? 0,
+                        (train.velocity ?? 0) * MPH_TO_METERS_PER_SECOND,
+                        elapsedMs,
+                    );
+                    return { ...train, lat, lon };
+                }),
+            ]),
+        );
+        res.json(routes);
+    });
+
+    app.get("/mta/feeds/:feed", (req, res) => {
+        const feedTrips = trips.filter((trip) => trip.feed === req.params.feed);
+        const body = buildFeedMessage(feedTrips, Math.floor(Date.now() / 1000));
+        res.type("application/octet-stream").send(Buffer.from(body));
+    });
+
+    app.get("/mta/static/:file", (req, res) => {
+        const feedType = GTFS_ZIP_FIXTURES[req.params.file];
+        if (feedType === undefined) {
+            res.sendStatus(404);
+            return;
+        }
+        res.type("application/zip").send(buildGTFSZip(feedType));
+    });
+
+    app.get("/adsbdb/callsign/:callsign", (req, res) => {
+        const response = adsbdb[req.params.callsign.toUpperCase()];
+        if (response === undefined) {
+            res.status(404).json({ response: "unknown callsign" });
+            return;
+        }
+        res.json(response);
+    });
+
+    const server = http.createServer(app);
+    const aisServer = new WebSocketServer({ server, path: "/aisstream" });
+    aisServer.on("connection", (ws) => {
+        let intervalId: NodeJS.Timeout | undefined;
+        ws.on("message", (data) => {
+            // Like AISStream, the first message is the subscription
+            if (intervalId !== undefined) {
+                return;
+            }
+            let boxes: Bounds[];
+            try {
+                const subscription = JSON.parse(data.toString());
+                boxes = (
+                    subscription.BoundingBoxes as [
+                        [number, number],
+                        [number, number],
+                    ][]
+                ).map(([[lat1, lng1], [lat2, lng2]]) => ({
+                    minLat: Math.min(lat1, lat2),
+                    maxLat: Math.max(lat1, lat2),
+                    minLng: Math.min(lng1, lng2),
+                    maxLng: Math.max(lng1, lng2),
+                }));
+            } catch {
+                ws.close(1008, "Invalid subscription");
+                return;
+            }
+
+            let reportCount = 0;
+            const sendReports = () => {
+                const elapsedMs = loopElapsedMs();
+                const sendStaticData =
+                    reportCount % AIS_STATIC_DATA_EVERY === 0;
+                reportCount++;
+                for (const vessel of vessels) {
+                    const [latitude, longitude] = advance(
+                        vessel.latitude,
+                        vessel.longitude,
+                        vessel.Cog,
+                        vessel.Sog * KNOTS_TO_METERS_PER_SECOND,
+                        elapsedMs,
+                    );
+                    if (
+                        !boxes.some((box) =>
+                            isPointInBounds(latitude, longitude, box),
+                        )
+                    ) {
+                        continue;
+                    }
+                    const metaData = {
+                        MMSI: vessel.MMSI,
+                        ShipName: vessel.ShipName,
+                        latitude,
+                        longitude,
+                        time_utc: new Date().toISOString(),
+                    };
+                    const reportType = vessel.ClassB
+                        ? "StandardClassBPositionReport"
+                        : "PositionReport";
+                    ws.send(
+                        JSON.stringify({
+                            MessageType: reportType,
+                            MetaData: metaData,
+                            Message: {
+                                [reportType]: {
+                                    UserID: vessel.MMSI,
+                                    Latitude: latitude,
+                                    Longitude: longitude,
+                                    Sog: vessel.Sog,
+                                    Cog: vessel.Cog,
+                                    TrueHeading: vessel.TrueHeading,
+                                    NavigationalStatus:
+                                        vessel.NavigationalStatus,
+                                },
+                            },
+                        }),
+                    );
+                    if (sendStaticData) {
+                        ws.send(
+                            JSON.stringify({
+                                MessageType: "ShipStaticData",
+                                MetaData: metaData,
+                                Message: {
+                                    ShipStaticData: {
+                                        UserID: vessel.MMSI,
+                                        Name: vessel.ShipName,
+                                        ...vessel.ShipStaticData,
+                                    },
+                                },
+                            }),
+                        );
+                    }
+                }
+            };
+            sendReports();
+            intervalId = setInterval(sendReports, AIS_REPORT_INTERVAL_MS);
+        });
+        ws.on("close", () => {
+            clearInterval(intervalId);
+        });
+    });
+
+    const sbsServer = createReplayServer(
+        readFrames("adsb.sbs"),
+        SBS_FRAME_INTERVAL_MS,
+        stampSBSLine,
+    );
+    const aisNmeaServer = createReplayServer(
+        readFrames("ais.nmea"),
+        AIS_NMEA_FRAME_INTERVAL_MS,
+    );
+
+    const boundPort = await listen(server, port);
+    const boundSBSPort = await listen(sbsServer, sbsPort);
+    const boundAISNmeaPort = await listen(aisNmeaServer, aisNmeaPort);
+    const base = `http://127.0.0.1:${boundPort}`;
+    return {
+        port: boundPort,
+        sbsPort: boundSBSPort,
+        aisNmeaPort: boundAISNmeaPort,
+        env: {
+            OPENSKY_BASE_URL: `${base}/opensky`,
+            OPENSKY_AUTH_URL: `${base}/opensky/auth/token`,
+            AMTRAKER_BASE_URL: `${base}/amtraker`,
+            AISSTREAM_URL: `ws://127.0.0.1:${boundPort}/aisstream`,
+            AISSTREAM_API_KEY: "mock",
+            MTA_FEED_BASE_URL: `${base}/mta/feeds`,
+            MTA_STATIC_BASE_URL: `${base}/mta/static`,
+            // Keep the fixture schedules and cached routes apart from the
+            // real ones
+            MTA_STATIC_DIR: "./mta-gtfs-static/mock",
+            CACHE_DIR: "./cache/mock",
+            ADSB_URL: `sbs://127.0.0.1:${boundSBSPort}`,
+            AIS_RECEIVER_URL: `tcp://127.0.0.1:${boundAISNmeaPort}`,
+            ADSBDB_BASE_URL: `${base}/adsbdb`,
+            // Not an upstream, but the fixture planes aren't in a
+            // real aircraft database
+            AIRCRAFT_DB_PATH: path.join(FIXTURES_DIR, "aircraft.csv"),
+        },
+        close: () =>
+            new Promise((resolveClose) => {
+                for (const client of aisServer.clients) {
+                    client.terminate();
+                }
+                aisServer.close();
+                sbsServer.close();
+                aisNmeaServer.close();
+                server.close(() => resolveClose());
+            }),
+    };
+};
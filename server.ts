@@ -6,6 +6,32 @@ import express from "express";
 import { createServer as createViteServer } from "vite";
 
 import { setupWebsocketServer } from "./websocket_server.js";
+import { startMockUpstream } from "./mock-upstream/index.js";
+import { DATA_SOURCES, getMissingEnvVars } from "./data-sources/index.js";
+import { Recorder } from "./data-sources/recorder.js";
+import {
+    AircraftDatabase,
+    DEFAULT_AIRCRAFT_DB_PATH,
+} from "./data-sources/aircraftDatabase.js";
+import { DEFAULT_CACHE_DIR, DiskCache } from "./data-sources/diskCache.js";
+import {
+    AdsbdbProvider,
+    DEFAULT_ADSBDB_BASE_URL,
+    FallbackProvider,
+    RouteFileProvider,
+} from "./data-sources/flightRouteProviders.js";
+import {
+    FlightRouteService,
+    type FlightRouteResult,
+} from "./data-sources/flightRouteService.js";
+import {
+    VehicleDetailsCache,
+    type VehicleDetails,
+} from "./data-sources/vehicleDetails.js";
+import {
+    DEFAULT_VEHICLE_TTL_MS,
+    type VehicleKind,
+} from "./data-sources/vehicles.js";
 
 dotenv.config({ path: ".env.local" });
 
@@ -29,66 +55,86 @@ async function createServer() {
     // express router (express.Router()), you should use router.use
     app.use(vite.middlewares);
 
-    const flightInfoCache = new Map<string, any>();
-    app.use("/api/flightInfo", async (req, res) => {
-        if (req.method === "GET") {
-            console.log(
-                "got request for /api/flightInfo",
-                req.method,
-                req.query,
-            );
-            const { icao } = req.query;
-            if (typeof icao !== "string") {
-                res.sendStatus(400);
-                return;
-            }
-            const query = icao.toUpperCase();
-            const getFlightData = async () => {
-                const start = new Date().getTime();
-                if (flightInfoCache.has(query)) {
-                    const responseOrPending = flightInfoCache.get(query);
-
-                    const sleep = (ms: number) => {
-                        return new Promise((resolve) =>
-                            setTimeout(resolve, ms),
-                        );
-                    };
-                    if (responseOrPending === "pending") {
-                        await sleep(200);
-                        return await getFlightData();
-                    } else {
-                        console.log(
-                            "returning cached request for query",
-                            query,
-                            `duration: ${new Date().getTime() - start}ms`,
-                        );
-                        return responseOrPending;
-                    }
-                }
-                flightInfoCache.set(query, "pending");
-                try {
-                    console.log("performing actual request for query", query);
-                    const response = await fetch(
-                        `https://api.adsbdb.com/v0/callsign/${query}`,
-                    );
-                    const data = await response.json();
-                    flightInfoCache.set(query, data);
-                } catch (e) {
-                    console.log("error querying for flight data", e.message);
-                    flightInfoCache.set(query, "error");
-                }
-                console.log(
-                    `got response. duration: ${new Date().getTime() - start}ms`,
-                );
-                return flightInfoCache.get(query);
-            };
+    // Point every data source at a local stand-in for its upstream, so that
+    // we can run without network access or API keys
+    if (process.env.MOCK_UPSTREAM) {
+        const mockUpstream = await startMockUpstream();
+        Object.assign(process.env, mockUpstream.env);
+        console.log(`mock upstream listening on port ${mockUpstream.port}`);
+    }
 
-            const data = await getFlightData();
-            res.setHeader("Content-Type", "text/plain");
-            res.send(JSON.stringify(data));
+    // Looked up routes and vehicle details are kept on disk, so a restart
+    // doesn't start from nothing
+    const cacheDir = process.env.CACHE_DIR || DEFAULT_CACHE_DIR;
+    const flightRouteCache = new DiskCache<FlightRouteResult>(
+        cacheDir,
+        "flight-routes",
+    );
+    const vehicleDetailsCache = new DiskCache<VehicleDetails>(
+        cacheDir,
+        "vehicle-details",
+    );
+
+    // Routes from a local file, if there is one, take priority over adsbdb's
+    const flightRoutesPath = process.env.FLIGHT_ROUTES_PATH;
+    const adsbdb = new AdsbdbProvider(
+        process.env.ADSBDB_BASE_URL || DEFAULT_ADSBDB_BASE_URL,
+    );
+    const flightRoutes = new FlightRouteService(
+        flightRoutesPath
+            ? new FallbackProvider([
+                  new RouteFileProvider(flightRoutesPath),
+                  adsbdb,
+              ])
+            : adsbdb,
+        {},
+        flightRouteCache,
+    );
+    app.use("/api/flightRoute", async (req, res) => {
+        if (req.method !== "GET") {
+            res.sendStatus(405);
+            return;
+        }
+        const { callsign } = req.query;
+        if (typeof callsign !== "string" || !callsign.trim()) {
+            res.sendStatus(400);
+            return;
+        }
+        const result = await flightRoutes.lookup(callsign);
+        switch (result.status) {
+            case "found":
+                res.json(result.route);
+                break;
+            case "notFound":
+                res.status(404).json({ error: "unknown callsign" });
+                break;
+            case "error":
+                res.status(502).json({ error: result.message });
+                break;
         }
     });
 
+    // Aircraft metadata is loaded in the background, since a full database
+    // takes a while to read. Until then every lookup is a miss.
+    const aircraftDatabase = new AircraftDatabase();
+    app.use("/api/aircraft", (req, res) => {
+        if (req.method !== "GET") {
+            res.sendStatus(405);
+            return;
+        }
+        const { icao24 } = req.query;
+        if (typeof icao24 !== "string") {
+            res.sendStatus(400);
+            return;
+        }
+        const aircraft = aircraftDatabase.lookup(icao24);
+        if (aircraft === undefined) {
+            res.sendStatus(404);
+            return;
+        }
+        res.json(aircraft);
+    });
+
     // Catch-all handler for SPA routing (Express 5 compatible)
     app.use(async (req, res, next) => {
         // Skip if this is an API route or already handled
@@ -120,12 +166,103 @@ async function createServer() {
             next(e);
         }
     });
-    const aisApiKey = process.env.AISSTREAM_API_KEY;
-    if (!aisApiKey) {
-        throw new Error("AISStream API Key not provided");
+    const aircraftDbPath =
+        process.env.AIRCRAFT_DB_PATH || DEFAULT_AIRCRAFT_DB_PATH;
+    if (fs.existsSync(aircraftDbPath)) {
+        aircraftDatabase
+            .load(aircraftDbPath)
+            .then(() => {
+                console.log(
+                    `loaded ${aircraftDatabase.size} aircraft from ${aircraftDbPath}`,
+                );
+            })
+            .catch((e) => {
+                console.log("error loading aircraft database", e);
+            });
+    } else {
+        console.log(
+            `no aircraft database at ${aircraftDbPath}, aircraft details are disabled`,
+        );
+    }
+
+    for (const definition of DATA_SOURCES) {
+        const missingEnvVars = getMissingEnvVars(definition, process.env);
+        if (missingEnvVars.length > 0) {
+            console.log(
+                `${definition.type} is disabled, missing ${missingEnvVars.join(", ")}`,
+            );
+        }
     }
 
-    setupWebsocketServer(aisApiKey);
+    // If set, this overrides how long every kind of vehicle is kept around
+    const vehicleExpiryMinutes = process.env.VEHICLE_EXPIRY_MINUTES;
+    const vehicleTtlMs = { ...DEFAULT_VEHICLE_TTL_MS };
+    if (vehicleExpiryMinutes) {
+        const minutes = Number(vehicleExpiryMinutes);
+        if (Number.isFinite(minutes) && minutes > 0) {
+            for (const kind of Object.keys(vehicleTtlMs) as VehicleKind[]) {
+                vehicleTtlMs[kind] = minutes * 60 * 1000;
+            }
+        } else {
+            console.log(
+                `ignoring VEHICLE_EXPIRY_MINUTES=${vehicleExpiryMinutes}, it should be a number of minutes`,
+            );
+        }
+    }
+
+    // Record live data to a file, or play a recording back instead of
+    // fetching live data
+    const recordTo = process.env.RECORD_TO;
+    const replayFrom = process.env.REPLAY_FROM;
+    const recorder = recordTo ? new Recorder(recordTo) : undefined;
+    const replaySpeed = process.env.REPLAY_SPEED;
+    let speed = 1;
+    if (replaySpeed) {
+        const parsed = Number(replaySpeed);
+        if (Number.isFinite(parsed) && parsed > 0) {
+            speed = parsed;
+        } else {
+            console.log(
+                `ignoring REPLAY_SPEED=${replaySpeed}, it should be a positive number`,
+            );
+        }
+    }
+    const replay = replayFrom ? { path: replayFrom, speed } : undefined;
+    if (recorder) {
+        console.log("recording data sources to", recordTo);
+        // Flush what's been recorded before exiting
+        for (const signal of ["SIGINT", "SIGTERM"] as const) {
+            process.once(signal, async () => {
+                await recorder.close();
+                process.exit(0);
+            });
+        }
+    }
+    if (replay) {
+        console.log(`replaying ${replay.path} at ${replay.speed}x`);
+    }
+
+    // Load the caches before any region starts, so it doesn't look up
+    // everything the caches already have
+    for (const cache of [flightRouteCache, vehicleDetailsCache]) {
+        try {
+            await cache.load();
+        } catch (e) {
+            console.log("error loading cache, it won't be kept on disk", e);
+        }
+    }
+    console.log(
+        `loaded ${flightRouteCache.size} flight routes and ${vehicleDetailsCache.size} vehicles' details from ${cacheDir}`,
+    );
+
+    setupWebsocketServer({
+        vehicleTtlMs,
+        recorder,
+        replay,
+        aircraftDatabase,
+        flightRoutes,
+        vehicleDetails: new VehicleDetailsCache(vehicleDetailsCache),
+    });
     console.log("server listening...");
     app.listen(5173, "0.0.0.0");
 }
@@ -1,8 +1,10 @@
 import { Fragment, useEffect, useLayoutEffect, useState } from "react";
+import type { Map as LeafletMap } from "leaflet";
 import {
     MapContainer,
     Rectangle,
     TileLayer,
+    useMap,
     useMapEvents,
 } from "react-leaflet";
 import { debug } from "./logger";
@@ -30,49 +32,58 @@ const convertBounds = (
     ];
 };
 
+const getViewBounds = (map: LeafletMap): Bounds => {
+    const bounds = map.getBounds();
+    return {
+        minLat: bounds.getSouth(),
+        maxLat: bounds.getNorth(),
+        minLng: bounds.getWest(),
+        maxLng: bounds.getEast(),
+    };
+};
+
 const InnerMap = ({
     center: _center,
     maxHeight,
+    showTrails,
 }: {
     center: { lat: number; lng: number };
     maxHeight: number;
+    showTrails: boolean;
 }) => {
-    const [bounds, setBounds] = useState<Bounds | null>(null);
-    const map = useMapEvents({
+    const map = useMap();
+    const [bounds, setBounds] = useState<Bounds>(() => getViewBounds(map));
+    useMapEvents({
         click(e) {
             console.log("clicked at:", e.latlng, "in bounds?");
         },
+        // Re-subscribe to whatever regions are now in view
+        moveend() {
+            setBounds(getViewBounds(map));
+        },
+        zoomend() {
+            setBounds(getViewBounds(map));
+        },
+        resize() {
+            setBounds(getViewBounds(map));
+        },
     });
 
-    // If the max height changes, make sure we reset the size.
+    // If the max height changes, make sure we reset the size. This fires a
+    // resize event if the size actually changed, which updates the bounds.
     useLayoutEffect(() => {
-        map?.invalidateSize();
-        if (map) {
-            // TODO: If I want to also update these when panning around, I need to call `useMapEvents` and listen
-            // to both the moveEnd and zoomEnd events (and probably also resize?)
-            const bounds = map.getBounds();
-            setBounds({
-                minLat: bounds.getSouth(),
-                maxLat: bounds.getNorth(),
-                minLng: bounds.getWest(),
-                maxLng: bounds.getEast(),
-            });
-        }
+        map.invalidateSize();
     }, [map, maxHeight]);
 
-    useEffect(() => {
-        if (map && bounds) {
-            // southWest, then northEast
-            map.fitBounds(convertBounds(bounds));
-        }
-    }, [map, bounds]);
-
-    const { boatPositions, trainPositions, airplanePositions, mtaPositions } = usePositions(
-        bounds,
-        (newBounds) => {
-            setBounds(newBounds);
-        },
-    );
+    const {
+        boatPositions,
+        trainPositions,
+        airplanePositions,
+        mtaPositions,
+        coveredBounds,
+        now,
+        vehicleTtlMs,
+    } = usePositions(bounds);
 
     // Debug: Log marker counts
     useEffect(() => {
@@ -85,16 +96,36 @@ const InnerMap = ({
                 attribution='&copy; <a href="https://www.openstreetmap.org/copyright"/>OpenStreetMap</a> contributors'
                 url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
             />
-            {bounds && (
+            {coveredBounds && (
                 <Rectangle
-                    bounds={convertBounds(bounds)}
+                    bounds={convertBounds(coveredBounds)}
                     pathOptions={{ color: "white", fillOpacity: 0 }}
                 />
             )}
-            <BoatMarkers boatPositions={boatPositions} />
-            <TrainMarkers trainPositions={trainPositions} />
-            <AirplaneMarkers airplanePositions={airplanePositions} />
-            <MTAMarkers mtaPositions={mtaPositions} />
+            <BoatMarkers
+                boatPositions={boatPositions}
+                now={now}
+                ttlMs={vehicleTtlMs.boat}
+                showTrails={showTrails}
+            />
+            <TrainMarkers
+                trainPositions={trainPositions}
+                now={now}
+                ttlMs={vehicleTtlMs.train}
+                showTrails={showTrails}
+            />
+            <AirplaneMarkers
+                airplanePositions={airplanePositions}
+                now={now}
+                ttlMs={vehicleTtlMs.airplane}
+                showTrails={showTrails}
+            />
+            <MTAMarkers
+                mtaPositions={mtaPositions}
+                now={now}
+                ttlMs={vehicleTtlMs.transit}
+                showTrails={showTrails}
+            />
         </Fragment>
     );
 };
@@ -104,6 +135,7 @@ export const MapWrapper = ({ maxHeight }: { maxHeight: number }) => {
         lat: 40.75,
         lng: -74,
     });
+    const [showTrails, setShowTrails] = useState<boolean>(true);
 
     useEffect(() => {
         if (navigator.geolocation) {
@@ -118,7 +150,27 @@ export const MapWrapper = ({ maxHeight }: { maxHeight: number }) => {
     }, []);
 
     return (
-        <div style={{ height: maxHeight, width: "100%" }}>
+        <div style={{ height: maxHeight, width: "100%", position: "relative" }}>
+            <label
+                style={{
+                    position: "absolute",
+                    top: 10,
+                    right: 10,
+                    // Above the map's panes and controls
+                    zIndex: 1000,
+                    padding: "0.25em 0.5em",
+                    borderRadius: 4,
+                    background: "white",
+                    color: "black",
+                }}
+            >
+                <input
+                    type="checkbox"
+                    checked={showTrails}
+                    onChange={(e) => setShowTrails(e.target.checked)}
+                />{" "}
+                Show trails
+            </label>
             <MapContainer
                 style={{ height: "100%", width: "100%" }}
                 center={[center.lat, center.lng]}
@@ -126,7 +178,11 @@ export const MapWrapper = ({ maxHeight }: { maxHeight: number }) => {
                 scrollWheelZoom={false}
                 dragging={true}
             >
-                <InnerMap center={center} maxHeight={maxHeight} />
+                <InnerMap
+                    center={center}
+                    maxHeight={maxHeight}
+                    showTrails={showTrails}
+                />
             </MapContainer>
         </div>
     );
@@ -13,23 +13,24 @@ export const getIcon = (svgUrl: string) => {
  * Create a Leaflet DivIcon with SVG content and optional rotation
  * @param svgContent - The SVG content as a string (without data URI encoding)
  * @param rotationAngle - Optional rotation angle in degrees (0 = North, 90 = East, etc.)
+ * @param size - Width and height of the icon in pixels, which the SVG should match
  */
-export const getRotatableIcon = (svgContent: string, rotationAngle?: number) => {
+export const getRotatableIcon = (svgContent: string, rotationAngle?: number, size = 40) => {
     // Convert compass bearing (0=North) to CSS rotation angle
     // CSS: 0° = no rotation, positive = clockwise
     // Compass: 0° = North, 90° = East, 180° = South, 270° = West
     // For top-down icons pointing north, we need: CSS angle = compass bearing
     const cssRotation = rotationAngle !== undefined ? rotationAngle : 0;
     
-    const html = `<div style="transform: rotate(${cssRotation}deg); transform-origin: center center; width: 40px; height: 40px; display: flex; align-items: center; justify-content: center;">
+    const html = `<div style="transform: rotate(${cssRotation}deg); transform-origin: center center; width: ${size}px; height: ${size}px; display: flex; align-items: center; justify-content: center;">
         ${svgContent}
     </div>`;
     
     return L.divIcon({
         html,
         className: 'rotatable-marker-icon',
-        iconSize: [40, 40],
-        iconAnchor: [20, 20],
-        popupAnchor: [0, -15],
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2],
+        popupAnchor: [0, -size * 0.375],
     });
 };
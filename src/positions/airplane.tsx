@@ -1,104 +1,230 @@
-import { Fragment, useEffect, useState } from "react";
-import { Marker, Popup } from "react-leaflet";
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
+import { Popup, Tooltip } from "react-leaflet";
 import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Doc } from "../../convex/_generated/dataModel";
 import { toast } from "react-hot-toast";
-import { debug } from "../logger";
 import { getRotatableIcon } from "../marker";
-import { PositionHandler, Position } from "./base";
-import type { DataSourceMessage } from "../../data-sources/dataSource";
-import type { OpenSkyMessagePayload } from "../../data-sources/messagePayloads";
+import { PositionHandler, Position, getMarkerOpacity } from "./base";
+import { VehicleTrail } from "./trail";
+import { MovingMarker } from "./motion";
+import type { VehicleOfKind } from "../../data-sources/vehicles";
+import type { AircraftInfo } from "../../data-sources/aircraft";
+import type { Airline, Airport, FlightRoute } from "../../data-sources/flightRoute";
+import { decodeCallsign, formatFlightNumber } from "../../data-sources/airlines";
+import { getAircraftClass, type AircraftClass } from "../../data-sources/aircraftTypes";
+import type { AircraftPositionSource } from "../../data-sources/vehicles";
 
 export type AirplanePosition = Position & {
-    callsign: string;
+    icao24: string;
+    callsign?: string;
+    originCountry?: string;
     positionTime: Date;
-    altitudeMeters: number;
+    altitudeMeters?: number;
+    geoAltitudeMeters?: number;
+    onGround: boolean;
+    verticalRateMetersPerSecond?: number;
+    squawk?: string;
+    spi?: boolean;
+    positionSource?: AircraftPositionSource;
+    // ADS-B emitter category and ICAO type designator, when they're known
+    category?: number;
+    typecode?: string;
+    // Looked up by the server, so it's missing until then
+    route?: FlightRoute;
     // In decimal degrees from north.
     heading: number;
     velocityMetersPerSecond: number;
 };
 
+const METERS_TO_FEET = 3.28084;
+
+// Markers are colored by altitude, from low and orange to high and purple
+const ALTITUDE_BANDS: { maxFeet: number; color: string }[] = [
+    { maxFeet: 1000, color: "#f97316" },
+    { maxFeet: 5000, color: "#eab308" },
+    { maxFeet: 10000, color: "#22c55e" },
+    { maxFeet: 20000, color: "#06b6d4" },
+    { maxFeet: 30000, color: "#3b82f6" },
+    { maxFeet: Infinity, color: "#a855f7" },
+];
+
+// Aircraft on the ground are drawn smaller and in gray, so they don't get
+// mistaken for low-flying ones
+const GROUNDED_COLOR = "#94a3b8";
+const GROUNDED_ICON_SCALE = 0.75;
+const UNKNOWN_ALTITUDE_COLOR = "#e2e8f0";
+
+const getAirplaneColor = (position: AirplanePosition) => {
+    if (position.onGround) {
+        return GROUNDED_COLOR;
+    }
+    if (position.altitudeMeters === undefined) {
+        return UNKNOWN_ALTITUDE_COLOR;
+    }
+    const feet = position.altitudeMeters * METERS_TO_FEET;
+    return ALTITUDE_BANDS.find((band) => feet < band.maxFeet)!.color;
+};
+
+// Bigger aircraft get bigger markers
+const AIRCRAFT_ICON_SIZES: Record<AircraftClass, number> = {
+    wideBody: 48,
+    jet: 40,
+    turboprop: 36,
+    helicopter: 36,
+    light: 30,
+};
+
+const COCKPIT = `fill="#0ea5e9" stroke="#0369a1" stroke-width="0.5"`;
+const ENGINE = `fill="#64748b"`;
+
+// Top-down art for each class of aircraft, on a 40x40 canvas with the nose
+// pointing up, filled with the color of its altitude band
+const AIRCRAFT_ART: Record<AircraftClass, (color: string) => string> = {
+    jet: (color) => `
+        <path d="M 20 4 
+                 C 22 4, 23 6, 23 8 
+                 L 23 14 L 36 20 L 36 22 L 23 19 
+                 L 23 28 L 28 32 L 28 34 L 20 31 L 12 34 L 12 32 L 17 28 
+                 L 17 19 L 4 22 L 4 20 L 17 14 
+                 L 17 8 C 17 6, 18 4, 20 4 Z" 
+              fill="${color}" stroke="#475569" stroke-width="0.8" filter="url(#airplaneShadow)"/>
+        <ellipse cx="20" cy="8" rx="2" ry="3" ${COCKPIT}/>
+        <ellipse cx="14" cy="17" rx="1.5" ry="2.5" ${ENGINE}/>
+        <ellipse cx="26" cy="17" rx="1.5" ry="2.5" ${ENGINE}/>`,
+    // Wider fuselage, longer wings and four engines
+    wideBody: (color) => `
+        <path d="M 20 2 C 22.5 2, 23.5 4, 23.5 7
+                 L 23.5 14 L 38 22 L 38 24.5 L 23.5 20.5
+                 L 23.5 29 L 29.5 33 L 29.5 35 L 20 32.5 L 10.5 35 L 10.5 33 L 16.5 29
+                 L 16.5 20.5 L 2 24.5 L 2 22 L 16.5 14
+                 L 16.5 7 C 16.5 4, 17.5 2, 20 2 Z"
+              fill="${color}" stroke="#475569" stroke-width="0.8" filter="url(#airplaneShadow)"/>
+        <ellipse cx="20" cy="6.5" rx="2.5" ry="3" ${COCKPIT}/>
+        <ellipse cx="12.5" cy="18.5" rx="1.5" ry="2.5" ${ENGINE}/>
+        <ellipse cx="27.5" cy="18.5" rx="1.5" ry="2.5" ${ENGINE}/>
+        <ellipse cx="7.5" cy="21.5" rx="1.3" ry="2.2" ${ENGINE}/>
+        <ellipse cx="32.5" cy="21.5" rx="1.3" ry="2.2" ${ENGINE}/>`,
+    // Straight wings with a propeller on each engine
+    turboprop: (color) => `
+        <path d="M 20 5 C 21.5 5, 22 6.5, 22 8
+                 L 22 14 L 37 14.5 L 37 17.5 L 22 18
+                 L 22 30 L 26.5 31 L 26.5 33.5 L 20 33 L 13.5 33.5 L 13.5 31 L 18 30
+                 L 18 18 L 3 17.5 L 3 14.5 L 18 14
+                 L 18 8 C 18 6.5, 18.5 5, 20 5 Z"
+              fill="${color}" stroke="#475569" stroke-width="0.8" filter="url(#airplaneShadow)"/>
+        <ellipse cx="20" cy="8.5" rx="1.5" ry="2.5" ${COCKPIT}/>
+        <ellipse cx="12" cy="14" rx="1.5" ry="3" ${ENGINE}/>
+        <ellipse cx="28" cy="14" rx="1.5" ry="3" ${ENGINE}/>
+        <line x1="8.5" y1="10.5" x2="15.5" y2="10.5" stroke="#334155" stroke-width="1"/>
+        <line x1="24.5" y1="10.5" x2="31.5" y2="10.5" stroke="#334155" stroke-width="1"/>`,
+    // Small single-engine plane, with the propeller on the nose
+    light: (color) => `
+        <path d="M 20 8 C 21.2 8, 21.5 9, 21.5 10
+                 L 21.5 15 L 33 15.5 L 33 18 L 21.5 18.5
+                 L 21 27 L 24.5 27.5 L 24.5 29.5 L 15.5 29.5 L 15.5 27.5 L 19 27
+                 L 18.5 18.5 L 7 18 L 7 15.5 L 18.5 15
+                 L 18.5 10 C 18.5 9, 18.8 8, 20 8 Z"
+              fill="${color}" stroke="#475569" stroke-width="0.8" filter="url(#airplaneShadow)"/>
+        <ellipse cx="20" cy="13" rx="1" ry="1.5" ${COCKPIT}/>
+        <line x1="16.5" y1="7.5" x2="23.5" y2="7.5" stroke="#334155" stroke-width="1"/>`,
+    // Body and tail boom under a spinning rotor disc
+    helicopter: (color) => `
+        <rect x="19.2" y="20" width="1.6" height="14" fill="${color}" stroke="#475569" stroke-width="0.5"/>
+        <line x1="17" y1="33" x2="23" y2="33" stroke="#334155" stroke-width="1"/>
+        <ellipse cx="20" cy="16" rx="4.5" ry="7" fill="${color}" stroke="#475569" stroke-width="0.8" filter="url(#airplaneShadow)"/>
+        <ellipse cx="20" cy="12" rx="3" ry="2.5" ${COCKPIT} opacity="0.8"/>
+        <circle cx="20" cy="16" r="14" fill="#94a3b8" fill-opacity="0.15" stroke="#64748b" stroke-width="0.5" stroke-dasharray="2 2"/>
+        <line x1="10" y1="6" x2="30" y2="26" stroke="#334155" stroke-width="1.2"/>
+        <line x1="30" y1="6" x2="10" y2="26" stroke="#334155" stroke-width="1.2"/>`,
+};
+
+const getAirplaneClass = (position: AirplanePosition) => getAircraftClass(position.typecode, position.category);
+
+const getAirplaneIconSize = (position: AirplanePosition) => {
+    const size = AIRCRAFT_ICON_SIZES[getAirplaneClass(position)];
+    return position.onGround ? Math.round(size * GROUNDED_ICON_SCALE) : size;
+};
+
 /**
- * Generate top-down airplane SVG icon (static, no rotation)
+ * Generate top-down airplane SVG icon for the aircraft's class, colored by its altitude
  * Icon points north (up) by default, rotation applied via CSS transform
  */
-const getAirplaneMarkerSVG = () => {
-    // Top-down airplane silhouette - clean, recognizable shape
-    const svg = `<svg width="40" height="40" viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg">
+const getAirplaneMarkerSVG = (position: AirplanePosition) => {
+    const size = getAirplaneIconSize(position);
+    const svg = `<svg width="${size}" height="${size}" viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg">
         <defs>
             <filter id="airplaneShadow" x="-20%" y="-20%" width="140%" height="140%">
                 <feDropShadow dx="1" dy="1" stdDeviation="1" flood-opacity="0.3"/>
             </filter>
-            <linearGradient id="planeBody" x1="0%" y1="0%" x2="0%" y2="100%">
-                <stop offset="0%" style="stop-color:#f8fafc"/>
-                <stop offset="100%" style="stop-color:#cbd5e1"/>
-            </linearGradient>
         </defs>
-        <!-- Main fuselage -->
-        <path d="M 20 4 
-                 C 22 4, 23 6, 23 8 
-                 L 23 14 L 36 20 L 36 22 L 23 19 
-                 L 23 28 L 28 32 L 28 34 L 20 31 L 12 34 L 12 32 L 17 28 
-                 L 17 19 L 4 22 L 4 20 L 17 14 
-                 L 17 8 C 17 6, 18 4, 20 4 Z" 
-              fill="url(#planeBody)" stroke="#475569" stroke-width="0.8" filter="url(#airplaneShadow)"/>
-        <!-- Cockpit -->
-        <ellipse cx="20" cy="8" rx="2" ry="3" fill="#0ea5e9" stroke="#0369a1" stroke-width="0.5"/>
-        <!-- Engine nacelles -->
-        <ellipse cx="14" cy="17" rx="1.5" ry="2.5" fill="#64748b"/>
-        <ellipse cx="26" cy="17" rx="1.5" ry="2.5" fill="#64748b"/>
+        ${AIRCRAFT_ART[getAirplaneClass(position)](getAirplaneColor(position))}
     </svg>`;
     
     return svg;
 };
 
-type Airport = {
-    country_iso_name: string;
-    country_name: string;
-    elevation: number;
-    iata_code: string;
-    latitude: number;
-    longitude: number;
-    municipality: string;
-    name: string;
-};
-
-type FlightData = {
-    callsign: string;
-    callsign_icao: string;
-    callsign_iata: string;
-    airline: {
-        name: string;
-        icao: string;
-        iata: string;
-        country: string;
-        country_iso: string;
-        callsign: string;
+// The route has the airline and flight number when it's been looked up, but
+// they can usually be read off the callsign too, so they're known without it
+const getFlight = (position: AirplanePosition): { airline?: Airline; flightNumber?: string } => {
+    const { route } = position;
+    const decoded = position.callsign ? decodeCallsign(position.callsign) : null;
+    return {
+        airline: route?.airline ?? decoded?.airline,
+        flightNumber: route?.callsignIata
+            ? formatFlightNumber(route.callsignIata)
+            : decoded?.iataFlightNumber,
     };
-    destination: Airport;
-    origin: Airport;
 };
 
-const FlightDataComponent = ({ flightData }: { flightData: FlightData }) => {
+const FlightComponent = ({ position }: { position: AirplanePosition }) => {
+    const { route } = position;
+    const { airline, flightNumber } = getFlight(position);
+    if (!route && !airline && !flightNumber) {
+        return null;
+    }
+    const formatAirport = (airport: Airport) =>
+        airport.iataCode ? `${airport.name} (${airport.iataCode})` : airport.name;
     return (
         <div style={{ marginTop: "1em" }}>
             <div>
-                Flight: {flightData.airline.name} {flightData.callsign_iata}
-            </div>
-            <div>
-                From: {flightData.origin.name} ({flightData.origin.iata_code})
-            </div>
-            <div>
-                To: {flightData.destination.name} (
-                {flightData.destination.iata_code})
+                Flight: {airline?.name} {flightNumber ?? position.callsign}
             </div>
+            {route && <div>From: {formatAirport(route.origin)}</div>}
+            {route && <div>To: {formatAirport(route.destination)}</div>}
+        </div>
+    );
+};
+
+const AircraftInfoComponent = ({ aircraft }: { aircraft: AircraftInfo }) => {
+    const name = [aircraft.manufacturer, aircraft.model]
+        .filter(Boolean)
+        .join(" ");
+    return (
+        <div style={{ marginTop: "1em" }}>
+            {(name || aircraft.typecode) && (
+                <div>
+                    Aircraft: {name}
+                    {aircraft.typecode && ` (${aircraft.typecode})`}
+                </div>
+            )}
+            {aircraft.registration && (
+                <div>Registration: {aircraft.registration}</div>
+            )}
+            {aircraft.operator && <div>Operator: {aircraft.operator}</div>}
+            {aircraft.year && <div>Built: {aircraft.year}</div>}
         </div>
     );
 };
 
 const AirplanePopup = ({ position }: { position: AirplanePosition }) => {
-    const [flightData, setFlightData] = useState<FlightData | null | false>(
+    const { airline } = getFlight(position);
+    // The route and airline are new objects with every update, so the
+    // achievement checks below go by their codes and names instead
+    const airlineName = airline?.name;
+    const originCode = position.route?.origin.iataCode;
+    const destinationCode = position.route?.destination.iataCode;
+    const [aircraft, setAircraft] = useState<AircraftInfo | null | false>(
         null,
     );
 
@@ -107,14 +233,19 @@ const AirplanePopup = ({ position }: { position: AirplanePosition }) => {
     const addAchievement = useMutation(api.user_achievements.add);
     const achievements = useQuery(api.user_achievements.list);
 
-    const maybeAddAchievement = async (achievement: Doc<"achievements">) => {
+    // Achievements recorded from this popup, since the list of earned ones
+    // takes a moment to catch up
+    const recordedRef = useRef(new Set<string>());
+
+    const maybeAddAchievement = useCallback(async (achievement: Doc<"achievements">) => {
         const id = achievement._id;
         const alreadyEarned = achievements?.find(
             (achievement) => achievement.achievementId === id,
         );
-        if (alreadyEarned) {
+        if (alreadyEarned || recordedRef.current.has(id)) {
             return;
         }
+        recordedRef.current.add(id);
         console.log("Recording achievement:", achievement.name);
         toast(
             `Achievement unlocked: ${achievement.category} - ${achievement.name}`,
@@ -128,58 +259,57 @@ const AirplanePopup = ({ position }: { position: AirplanePosition }) => {
             },
         );
         await addAchievement({ achievementId: id });
-    };
+    }, [achievements, addAchievement]);
 
     useEffect(() => {
-        if (flightData !== null) {
-            return;
-        }
-
         const abortController = new AbortController();
 
         (async () => {
-            debug("sending flight info request for", position);
             try {
                 const response = await fetch(
-                    `/api/flightInfo?icao=${position.callsign.trim()}`,
+                    `/api/aircraft?icao24=${position.icao24}`,
                     { signal: abortController.signal },
                 );
-                const data = await response.json();
-                if (
-                    data?.response?.flightroute &&
-                    data.response.flightroute.airline
-                ) {
-                    setFlightData(data.response.flightroute);
-                } else {
-                    setFlightData(false);
-                }
+                // Most aircraft aren't in the database
+                setAircraft(response.ok ? await response.json() : false);
             } catch (e) {
-                console.error("request failed", e);
+                console.error("aircraft request failed", e);
             }
         })();
 
         return () => {
             abortController.abort();
         };
-    }, []);
+    }, [position.icao24]);
 
     useEffect(() => {
-        if (!isAuthenticated || !flightData) {
+        if (!isAuthenticated || (!originCode && !destinationCode && !airlineName && !aircraft)) {
             return;
         }
         const earn = async () => {
             for (const achievement of allAchievements ?? []) {
                 switch (achievement.category) {
                     case "Airlines": {
-                        if (achievement.name === flightData.airline.name) {
+                        if (airlineName && achievement.name === airlineName) {
                             await maybeAddAchievement(achievement);
                         }
                         break;
                     }
                     case "Airports": {
                         if (
-                            achievement.name === flightData.destination.iata_code ||
-                            achievement.name === flightData.origin.iata_code
+                            achievement.name === destinationCode ||
+                            achievement.name === originCode
+                        ) {
+                            await maybeAddAchievement(achievement);
+                        }
+                        break;
+                    }
+                    case "Aircraft": {
+                        if (
+                            aircraft && (
+                                achievement.name === aircraft.typecode ||
+                                achievement.name === aircraft.model
+                            )
                         ) {
                             await maybeAddAchievement(achievement);
                         }
@@ -189,63 +319,71 @@ const AirplanePopup = ({ position }: { position: AirplanePosition }) => {
             }
         };
         earn();
-    }, [isAuthenticated, flightData, allAchievements, achievements]);
+    }, [isAuthenticated, airlineName, originCode, destinationCode, aircraft, allAchievements, maybeAddAchievement]);
 
     return (
         <Fragment>
-            <div>{position.callsign}</div>
-            <div>
-                Altitude:{" "}
-                {(position.altitudeMeters * 3.28024)
-                    .toFixed(2)
-                    .toLocaleString()}
-                ft
-            </div>
+            <div>{position.callsign ?? position.icao24}</div>
+            {position.onGround ? (
+                <div>On the ground</div>
+            ) : (
+                position.altitudeMeters !== undefined && (
+                    <div>
+                        Altitude:{" "}
+                        {(position.altitudeMeters * METERS_TO_FEET)
+                            .toFixed(2)
+                            .toLocaleString()}
+                        ft
+                        {position.geoAltitudeMeters !== undefined &&
+                            ` (GPS ${(position.geoAltitudeMeters * METERS_TO_FEET).toFixed(0)}ft)`}
+                    </div>
+                )
+            )}
+            {position.verticalRateMetersPerSecond !== undefined &&
+                position.verticalRateMetersPerSecond !== 0 && (
+                    <div>
+                        {position.verticalRateMetersPerSecond > 0 ? "Climbing" : "Descending"}:{" "}
+                        {Math.abs(position.verticalRateMetersPerSecond * METERS_TO_FEET * 60).toFixed(0)}
+                        ft/min
+                    </div>
+                )}
             <div>Heading: {position.heading}°</div>
             <div>
                 Speed: {(position.velocityMetersPerSecond * 2.23694).toFixed(2)}
                 mph
             </div>
-            {flightData === null
-                ? "Loading..."
-                : flightData && <FlightDataComponent flightData={flightData} />}
+            {position.squawk && (
+                <div>
+                    Squawk: {position.squawk}
+                    {position.spi && " (ident)"}
+                </div>
+            )}
+            {position.originCountry && <div>Registered in: {position.originCountry}</div>}
+            {position.positionSource && <div>Position from: {position.positionSource}</div>}
+            {aircraft && <AircraftInfoComponent aircraft={aircraft} />}
+            <FlightComponent position={position} />
         </Fragment>
     );
 };
 
-export class AirplanePositionHandler extends PositionHandler<AirplanePosition, "OpenSky"> {
+export class AirplanePositionHandler extends PositionHandler<AirplanePosition, "airplane"> {
     constructor() {
         super({
-            getMessageType: () => "OpenSky",
-            getMarkerSVG: (_position) => getAirplaneMarkerSVG(),
+            getVehicleKind: () => "airplane",
+            getMarkerSVG: (position) => getAirplaneMarkerSVG(position),
             renderPopup: (position) => <AirplanePopup position={position} />,
-            parseMessage: (rawMsg: DataSourceMessage<"OpenSky">): Map<string, AirplanePosition> | null => {
-                const payload: OpenSkyMessagePayload = rawMsg.msg;
-                const newAirplanePositions = new Map<
-                    string,
-                    AirplanePosition
-                >();
-                for (const state of payload.states) {
-                    // See if there's data - we need at least indices 0, 1, 3, 5, 6, 9, 10
-                    // For the full data format, see: https://openskynetwork.github.io/opensky-api/rest.html#all-state-vectors
-                    // [0] = icao24, [1] = callsign, [3] = time, [5] = longitude, [6] = latitude, 
-                    // [7] = altitude (can be null), [9] = velocity, [10] = heading
-                    if (!state[0] || !state[1] || !state[3] || state[5] == null || state[6] == null || 
-                        state[9] == null || state[10] == null) {
-                        continue;
-                    }
-                    newAirplanePositions.set(state[0], {
-                        uniqueKey: state[0],
-                        callsign: state[1],
-                        positionTime: new Date(state[3] * 1000),
-                        lng: state[5],
-                        lat: state[6],
-                        altitudeMeters: state[7] ?? 0, // Altitude can be null, default to 0
-                        heading: state[10],
-                        velocityMetersPerSecond: state[9],
-                    });
-                }
-                return newAirplanePositions;
+            parseVehicle: (vehicle: VehicleOfKind<"airplane">): AirplanePosition => {
+                const { positionTime, ...attributes } = vehicle.attributes;
+                return {
+                    ...attributes,
+                    uniqueKey: vehicle.id,
+                    lastSeen: vehicle.lastSeen,
+                    positionTime: new Date(positionTime),
+                    lat: vehicle.lat,
+                    lng: vehicle.lng,
+                    heading: vehicle.heading ?? 0,
+                    velocityMetersPerSecond: vehicle.speed ?? 0,
+                };
             },
         });
     }
@@ -253,22 +391,48 @@ export class AirplanePositionHandler extends PositionHandler<AirplanePosition, "
 
 export const AirplaneMarkers = ({
     airplanePositions,
+    now,
+    ttlMs,
+    showTrails,
 }: {
     airplanePositions: Map<string, AirplanePosition>;
+    now: number;
+    // How long the server keeps this kind of vehicle, which markers fade over
+    ttlMs: number;
+    showTrails: boolean;
 }) => {
-    const handler = new AirplanePositionHandler();
-    handler.updatePositions(airplanePositions);
     return <Fragment>
+        {showTrails &&
+            Array.from(airplanePositions.values()).map((position) => (
+                <VehicleTrail
+                    key={position.uniqueKey}
+                    trail={position.trail}
+                    color="#0ea5e9"
+                    now={now}
+                />
+            ))}
         {Array.from(airplanePositions.entries()).map(([_, position]) => (
-            <Marker
+            <MovingMarker
                 key={position.uniqueKey}
-                position={[position.lat, position.lng]}
-                icon={getRotatableIcon(getAirplaneMarkerSVG(), position.heading)}
+                lat={position.lat}
+                lng={position.lng}
+                heading={position.heading}
+                speedMetersPerSecond={position.velocityMetersPerSecond}
+                fixTime={position.positionTime.getTime()}
+                icon={getRotatableIcon(
+                    getAirplaneMarkerSVG(position),
+                    position.heading,
+                    getAirplaneIconSize(position),
+                )}
+                opacity={getMarkerOpacity(position.lastSeen, ttlMs, now)}
             >
+                <Tooltip direction="top">
+                    {getFlight(position).flightNumber ?? position.callsign ?? position.icao24}
+                </Tooltip>
                 <Popup>
                     <AirplanePopup position={position} />
                 </Popup>
-            </Marker>
+            </MovingMarker>
         ))}
     </Fragment>;
 };
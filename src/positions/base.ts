@@ -1,49 +1,217 @@
 import type React from "react";
-import type { DataSourceMessage, MessageType } from "../../data-sources/dataSource";
+import { applyVehicleUpdate } from "../../data-sources/vehicleDelta";
+import { appendTrailPoint, type TrailPoint } from "../../data-sources/trails";
+import {
+    DEFAULT_VEHICLE_TTL_MS,
+    type Vehicle,
+    type VehicleKind,
+    type VehicleOfKind,
+    type VehiclesMessage,
+} from "../../data-sources/vehicles";
 
 export interface Position {
     uniqueKey: string;
     lat: number;
     lng: number;
+    // Unix timestamp (ms) of when the server last heard about this vehicle
+    lastSeen: number;
+    // Where the vehicle has recently been, oldest first
+    trail?: TrailPoint[];
 }
 
-export interface PositionHandlerConfig<T extends Position, TMessageType extends MessageType = MessageType> {
+export interface PositionHandlerConfig<T extends Position, K extends VehicleKind = VehicleKind> {
     getMarkerSVG: (position: T) => string;
     renderPopup: (position: T) => React.ReactNode;
-    getMessageType: () => TMessageType;
-    parseMessage: (rawMsg: DataSourceMessage<TMessageType>) => Map<string, T> | null;
+    getVehicleKind: () => K;
+    parseVehicle: (vehicle: VehicleOfKind<K>) => T | null;
 }
 
-export abstract class PositionHandler<T extends Position, TMessageType extends MessageType = MessageType> {
+// Markers stay fully opaque for this fraction of their TTL, then fade out
+const FRESH_FRACTION = 0.25;
+const MIN_OPACITY = 0.2;
+
+/**
+ * Get the opacity for a marker based on how long ago it was last reported,
+ * so that vehicles we haven't heard about in a while fade out.
+ */
+export const getMarkerOpacity = (lastSeen: number, ttlMs: number, now: number): number => {
+    const freshMs = ttlMs * FRESH_FRACTION;
+    const age = now - lastSeen;
+    if (age <= freshMs) {
+        return 1;
+    }
+    const fadeProgress = Math.min(1, (age - freshMs) / (ttlMs - freshMs));
+    return 1 - fadeProgress * (1 - MIN_OPACITY);
+};
+
+export abstract class PositionHandler<T extends Position, K extends VehicleKind = VehicleKind> {
+    // Positions are kept per region tile, since each tile reports on its own
+    // and a message from one tile shouldn't wipe out vehicles in another.
+    protected positionsByRegion: Map<string, Map<string, T>> = new Map();
+    // The vehicles behind those positions, which deltas are applied to
+    protected vehiclesByRegion: Map<string, Map<string, VehicleOfKind<K>>> = new Map();
     protected positions: Map<string, T> = new Map();
-    protected config: PositionHandlerConfig<T, TMessageType>;
+    // Trails are kept by vehicle id, so they carry over between regions
+    protected trails: Map<string, TrailPoint[]> = new Map();
+    protected config: PositionHandlerConfig<T, K>;
+    // How long to keep a vehicle after it was last reported. Replaced by the
+    // server's once it tells us, since it can be configured there.
+    protected ttlMs: number;
 
-    constructor(config: PositionHandlerConfig<T, TMessageType>) {
+    constructor(config: PositionHandlerConfig<T, K>) {
         this.config = config;
+        this.ttlMs = DEFAULT_VEHICLE_TTL_MS[config.getVehicleKind()];
+    }
+
+    /**
+     * Use the TTLs the server keeps vehicles for
+     */
+    setVehicleTtlMs(vehicleTtlMs: Record<VehicleKind, number>): void {
+        this.ttlMs = vehicleTtlMs[this.config.getVehicleKind()];
+    }
+
+    /**
+     * Apply a keyframe or delta from a WebSocket message to the vehicles of
+     * our kind. Returns whether any positions changed.
+     */
+    handleMessage(message: VehiclesMessage): boolean {
+        const { region } = message;
+        if (message.t === "VehicleKeyframe") {
+            // A keyframe replaces everything we had for the region
+            const hadVehicles = this.getRegionVehicles(region).size > 0;
+            this.vehiclesByRegion.set(region, new Map());
+            this.positionsByRegion.set(region, new Map());
+            for (const vehicle of message.msg.vehicles) {
+                this.setVehicle(region, vehicle, message.msg.trails[vehicle.id]);
+            }
+            this.mergeRegions();
+            return hadVehicles || this.getRegionVehicles(region).size > 0;
+        }
+
+        let changed = false;
+        for (const op of message.msg.ops) {
+            switch (op.op) {
+                case "add": {
+                    changed = this.setVehicle(region, op.vehicle) || changed;
+                    break;
+                }
+                case "update": {
+                    // Updates don't say what kind of vehicle they're for, so
+                    // only apply them to vehicles we already know about.
+                    const vehicle = this.getRegionVehicles(region).get(op.id);
+                    if (vehicle !== undefined) {
+                        changed = this.setVehicle(region, applyVehicleUpdate(vehicle, op.changes)) || changed;
+                    }
+                    break;
+                }
+                case "remove": {
+                    if (this.getRegionVehicles(region).delete(op.id)) {
+                        this.positionsByRegion.get(region)?.delete(op.id);
+                        changed = true;
+                    }
+                    break;
+                }
+            }
+        }
+        if (changed) {
+            this.mergeRegions();
+        }
+        return changed;
     }
 
     /**
-     * Handle a WebSocket message and update positions if applicable
+     * Store a vehicle and its parsed position if it's of our kind. Returns
+     * whether it was.
      */
-    handleMessage(rawMsg: DataSourceMessage<MessageType>): boolean {
-        if (rawMsg.t !== this.config.getMessageType()) {
+    private setVehicle(
+        region: string,
+        vehicle: Vehicle | VehicleOfKind<K>,
+        trail?: TrailPoint[],
+    ): boolean {
+        if (vehicle.kind !== this.config.getVehicleKind()) {
             return false;
         }
+        // Type assertion is safe here because we've checked the vehicle kind matches
+        const ownVehicle = vehicle as VehicleOfKind<K>;
+        // Keyframes come with the server's trail, otherwise extend the one we have
+        const nextTrail = appendTrailPoint(trail ?? this.trails.get(vehicle.id) ?? [], {
+            lat: vehicle.lat,
+            lng: vehicle.lng,
+            time: vehicle.lastSeen,
+        });
+        this.trails.set(vehicle.id, nextTrail);
+        const parsed = this.config.parseVehicle(ownVehicle);
+        const position = parsed !== null ? { ...parsed, trail: nextTrail } : null;
+        if (!this.vehiclesByRegion.has(region)) {
+            this.vehiclesByRegion.set(region, new Map());
+            this.positionsByRegion.set(region, new Map());
+        }
+        this.vehiclesByRegion.get(region)!.set(vehicle.id, ownVehicle);
+        if (position !== null) {
+            this.positionsByRegion.get(region)!.set(vehicle.id, position);
+        } else {
+            this.positionsByRegion.get(region)!.delete(vehicle.id);
+        }
+        return true;
+    }
+
+    private getRegionVehicles(region: string): Map<string, VehicleOfKind<K>> {
+        return this.vehiclesByRegion.get(region) ?? new Map();
+    }
 
-        // Type assertion is safe here because we've checked the message type matches
-        const newPositions = this.config.parseMessage(rawMsg as DataSourceMessage<TMessageType>);
-        if (newPositions !== null) {
-            this.updatePositions(newPositions);
-            return true;
+    /**
+     * Drop every vehicle that hasn't been reported within the TTL. Returns
+     * whether any positions changed.
+     */
+    expire(now: number = Date.now()): boolean {
+        let changed = false;
+        for (const [region, vehicles] of this.vehiclesByRegion.entries()) {
+            for (const [id, vehicle] of vehicles.entries()) {
+                if (now - vehicle.lastSeen > this.ttlMs) {
+                    vehicles.delete(id);
+                    this.positionsByRegion.get(region)?.delete(id);
+                    changed = true;
+                }
+            }
         }
-        return false;
+        if (changed) {
+            this.mergeRegions();
+        }
+        return changed;
     }
 
     /**
-     * Update positions with new data
+     * Drop all positions reported by a region, e.g. once it's unsubscribed
      */
-    updatePositions(newPositions: Map<string, T>): void {
-        this.positions = newPositions;
+    removeRegion(region: string): void {
+        this.vehiclesByRegion.delete(region);
+        if (this.positionsByRegion.delete(region)) {
+            this.mergeRegions();
+        }
+    }
+
+    /**
+     * Rebuild the combined positions from every region. Vehicles reported by
+     * more than one region are only kept once. Trails of vehicles that are no
+     * longer in any region are dropped.
+     */
+    private mergeRegions(): void {
+        const merged = new Map<string, T>();
+        for (const regionPositions of this.positionsByRegion.values()) {
+            for (const [key, position] of regionPositions.entries()) {
+                merged.set(key, position);
+            }
+        }
+        this.positions = merged;
+
+        for (const id of this.trails.keys()) {
+            const isTracked = Array.from(this.vehiclesByRegion.values()).some(
+                (vehicles) => vehicles.has(id),
+            );
+            if (!isTracked) {
+                this.trails.delete(id);
+            }
+        }
     }
 
     /**
@@ -1,23 +1,180 @@
 import { Fragment } from "react";
-import { Marker, Popup } from "react-leaflet";
+import { Popup } from "react-leaflet";
 import { getRotatableIcon } from "../marker";
-import { PositionHandler, Position } from "./base";
-import type { DataSourceMessage } from "../../data-sources/dataSource";
-import type { AISStreamMessagePayload } from "../../data-sources/messagePayloads";
+import { PositionHandler, Position, getMarkerOpacity } from "./base";
+import { VehicleTrail } from "./trail";
+import { MovingMarker } from "./motion";
+import type { BoatAttributes, VehicleOfKind } from "../../data-sources/vehicles";
+import {
+    describeNavigationalStatus,
+    describeShipType,
+    getVesselCategory,
+    type VesselCategory,
+} from "../../data-sources/ais-codes";
 
-export type BoatPosition = Position & {
-    shipName: string;
+export type BoatPosition = Position & BoatAttributes & {
     time: Date;
     heading?: number; // Bearing in degrees (0 = North, 90 = East, 180 = South, 270 = West)
+    speedMetersPerSecond?: number;
 };
 
-const getBoatMarkerSVG = () => {
-    // Top-down ship / vessel - clean ship silhouette from above
-    const svg = `<svg width="40" height="40" viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg">
+const METERS_PER_SECOND_TO_KNOTS = 1.94384;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const BoatPopup = ({ position }: { position: BoatPosition }) => {
+    const {
+        shipName,
+        mmsi,
+        imo,
+        callSign,
+        shipType,
+        navigationalStatus,
+        speedMetersPerSecond,
+        trueHeading,
+        courseOverGround,
+        destination,
+        eta,
+        lengthMeters,
+        beamMeters,
+    } = position;
+    const shipTypeName =
+        shipType !== undefined ? describeShipType(shipType) : undefined;
+    const status =
+        navigationalStatus !== undefined
+            ? describeNavigationalStatus(navigationalStatus)
+            : undefined;
+    const speedKnots =
+        speedMetersPerSecond !== undefined
+            ? speedMetersPerSecond * METERS_PER_SECOND_TO_KNOTS
+            : undefined;
+    return (
+        <Fragment>
+            <div>
+                <strong>{shipName || `MMSI ${mmsi}`}</strong>
+            </div>
+            {shipTypeName && <div>Type: {shipTypeName}</div>}
+            {status && <div>Status: {status}</div>}
+            {speedKnots !== undefined && (
+                <div>Speed: {speedKnots.toFixed(1)} kn</div>
+            )}
+            {trueHeading !== undefined && <div>Heading: {trueHeading}°</div>}
+            {courseOverGround !== undefined && (
+                <div>Course: {courseOverGround.toFixed(0)}°</div>
+            )}
+            {destination && <div>Destination: {destination}</div>}
+            {eta && (
+                <div>
+                    ETA: {pad(eta.month)}/{pad(eta.day)} {pad(eta.hour)}:
+                    {pad(eta.minute)} UTC
+                </div>
+            )}
+            {lengthMeters !== undefined && beamMeters !== undefined && (
+                <div>
+                    Size: {lengthMeters} × {beamMeters} m
+                </div>
+            )}
+            <div style={{ marginTop: "0.5em", fontSize: "0.85em" }}>
+                MMSI: {mmsi}
+                {imo !== undefined && <span> · IMO: {imo}</span>}
+                {callSign && <span> · Call sign: {callSign}</span>}
+            </div>
+        </Fragment>
+    );
+};
+
+type HullShape =
+    | "containerShip"
+    | "tanker"
+    | "warship"
+    | "ferry"
+    | "tug"
+    | "motorboat"
+    | "sailboat"
+    | "generic";
+
+interface VesselStyle {
+    shape: HullShape;
+    hull: string;
+    deck: string;
+    accent: string;
+    // Color of the vessel's trail, which should stand out against the map
+    trail: string;
+}
+
+const VESSEL_STYLES: Record<VesselCategory, VesselStyle> = {
+    cargo: { shape: "containerShip", hull: "#7c2d12", deck: "#f59e0b", accent: "#0d9488", trail: "#7c2d12" },
+    tanker: { shape: "tanker", hull: "#1f2937", deck: "#ef4444", accent: "#991b1b", trail: "#991b1b" },
+    passenger: { shape: "ferry", hull: "#ea580c", deck: "#ffedd5", accent: "#1e3a8a", trail: "#ea580c" },
+    highSpeed: { shape: "motorboat", hull: "#0891b2", deck: "#ecfeff", accent: "#155e75", trail: "#0891b2" },
+    tug: { shape: "tug", hull: "#111827", deck: "#f8fafc", accent: "#dc2626", trail: "#111827" },
+    fishing: { shape: "tug", hull: "#065f46", deck: "#d1fae5", accent: "#f59e0b", trail: "#065f46" },
+    pleasure: { shape: "motorboat", hull: "#f8fafc", deck: "#e2e8f0", accent: "#0284c7", trail: "#0284c7" },
+    sailing: { shape: "sailboat", hull: "#f8fafc", deck: "#fef3c7", accent: "#7c3aed", trail: "#7c3aed" },
+    pilot: { shape: "motorboat", hull: "#b91c1c", deck: "#fee2e2", accent: "#facc15", trail: "#b91c1c" },
+    lawEnforcement: { shape: "motorboat", hull: "#f8fafc", deck: "#e2e8f0", accent: "#ea580c", trail: "#ea580c" },
+    searchAndRescue: { shape: "motorboat", hull: "#f97316", deck: "#fff7ed", accent: "#dc2626", trail: "#f97316" },
+    military: { shape: "warship", hull: "#4b5563", deck: "#9ca3af", accent: "#1f2937", trail: "#4b5563" },
+    other: { shape: "generic", hull: "#1e3a8a", deck: "#60a5fa", accent: "#1e40af", trail: "#1e40af" },
+};
+
+// Long, narrow hull shared by the big ships, with room for a bridge at the stern
+const SHIP_HULL = "M 20 2 L 26 10 L 26 35 Q 26 38 23 38 L 17 38 Q 14 38 14 35 L 14 10 Z";
+const STERN_BRIDGE = `<rect x="15" y="29" width="10" height="4" rx="0.5" fill="#f1f5f9" stroke="#64748b" stroke-width="0.5"/>`;
+
+// Top-down art for each hull shape, on a 40x40 canvas with the bow pointing up
+const HULL_ART: Record<HullShape, (style: VesselStyle) => string> = {
+    containerShip: ({ hull, deck, accent }) => `
+        <path d="${SHIP_HULL}" fill="${hull}" stroke="${accent}" stroke-width="0.8" filter="url(#boatShadow)"/>
+        <rect x="15.5" y="11" width="9" height="3.5" fill="${deck}"/>
+        <rect x="15.5" y="15.5" width="9" height="3.5" fill="${accent}"/>
+        <rect x="15.5" y="20" width="9" height="3.5" fill="${deck}"/>
+        <rect x="15.5" y="24.5" width="9" height="3.5" fill="${accent}"/>
+        ${STERN_BRIDGE}`,
+    tanker: ({ hull, deck, accent }) => `
+        <path d="${SHIP_HULL}" fill="${hull}" stroke="${accent}" stroke-width="0.8" filter="url(#boatShadow)"/>
+        <line x1="20" y1="8" x2="20" y2="28" stroke="${deck}" stroke-width="1.5"/>
+        <circle cx="20" cy="13" r="2.5" fill="${deck}" stroke="${accent}" stroke-width="0.5"/>
+        <circle cx="20" cy="19" r="2.5" fill="${deck}" stroke="${accent}" stroke-width="0.5"/>
+        <circle cx="20" cy="25" r="2.5" fill="${deck}" stroke="${accent}" stroke-width="0.5"/>
+        ${STERN_BRIDGE}`,
+    warship: ({ hull, deck, accent }) => `
+        <path d="${SHIP_HULL}" fill="${hull}" stroke="${accent}" stroke-width="0.8" filter="url(#boatShadow)"/>
+        <circle cx="20" cy="11" r="2.5" fill="${deck}" stroke="${accent}" stroke-width="0.5"/>
+        <line x1="20" y1="11" x2="20" y2="6" stroke="${accent}" stroke-width="1"/>
+        <rect x="16" y="16" width="8" height="10" rx="1" fill="${deck}" stroke="${accent}" stroke-width="0.5"/>
+        <circle cx="20" cy="31" r="2.5" fill="${deck}" stroke="${accent}" stroke-width="0.5"/>`,
+    // Double-ended, like the Staten Island Ferry
+    ferry: ({ hull, deck, accent }) => `
+        <path d="M 20 3 C 27 3, 29 9, 29 15 L 29 25 C 29 31, 27 37, 20 37
+                 C 13 37, 11 31, 11 25 L 11 15 C 11 9, 13 3, 20 3 Z"
+              fill="${hull}" stroke="${accent}" stroke-width="0.8" filter="url(#boatShadow)"/>
+        <rect x="14" y="8" width="12" height="24" rx="4" fill="${deck}"/>
+        <rect x="16" y="11" width="8" height="2" rx="0.5" fill="${accent}"/>
+        <rect x="16" y="27" width="8" height="2" rx="0.5" fill="${accent}"/>
+        <line x1="17" y1="15" x2="17" y2="25" stroke="${accent}" stroke-width="1" stroke-dasharray="1.5 1"/>
+        <line x1="23" y1="15" x2="23" y2="25" stroke="${accent}" stroke-width="1" stroke-dasharray="1.5 1"/>`,
+    // Short and wide, with a thick fender all the way around
+    tug: ({ hull, deck, accent }) => `
+        <path d="M 20 9 L 26 14 L 26 30 C 26 33, 23 34, 20 34 C 17 34, 14 33, 14 30 L 14 14 Z"
+              fill="${hull}" stroke="#0f172a" stroke-width="2" filter="url(#boatShadow)"/>
+        <rect x="16.5" y="15" width="7" height="6" rx="1" fill="${deck}" stroke="#64748b" stroke-width="0.5"/>
+        <rect x="17.5" y="16.5" width="5" height="1.5" fill="#1e3a8a"/>
+        <rect x="18.5" y="23.5" width="3" height="3" fill="${accent}"/>`,
+    motorboat: ({ hull, deck, accent }) => `
+        <path d="M 20 8 C 23 11, 24.5 16, 24.5 22 L 24.5 31 L 15.5 31 L 15.5 22 C 15.5 16, 17 11, 20 8 Z"
+              fill="${hull}" stroke="#475569" stroke-width="0.8" filter="url(#boatShadow)"/>
+        <path d="M 15.7 25 L 24.3 20" stroke="${accent}" stroke-width="2"/>
+        <path d="M 17 19 Q 20 16.5 23 19 L 23 21 L 17 21 Z" fill="#1e3a8a" opacity="0.75"/>
+        <rect x="17" y="26" width="6" height="4" rx="0.5" fill="${deck}"/>`,
+    sailboat: ({ hull, deck, accent }) => `
+        <path d="M 20 6 C 23.5 10, 24.5 18, 24 32 L 16 32 C 15.5 18, 16.5 10, 20 6 Z"
+              fill="${hull}" stroke="#475569" stroke-width="0.8" filter="url(#boatShadow)"/>
+        <path d="M 20 13 L 20.5 28 L 26 26 Z" fill="${deck}" stroke="${accent}" stroke-width="0.8"/>
+        <circle cx="20" cy="13" r="1.2" fill="${accent}"/>`,
+    // The original all-purpose ship, for vessels we don't know the type of
+    generic: () => `
         <defs>
-            <filter id="boatShadow" x="-20%" y="-20%" width="140%" height="140%">
-                <feDropShadow dx="1" dy="1" stdDeviation="1" flood-opacity="0.3"/>
-            </filter>
             <linearGradient id="hullGrad" x1="0%" y1="0%" x2="100%" y2="0%">
                 <stop offset="0%" style="stop-color:#1e3a8a"/>
                 <stop offset="50%" style="stop-color:#3b82f6"/>
@@ -40,84 +197,119 @@ const getBoatMarkerSVG = () => {
         <!-- Bridge windows -->
         <rect x="17" y="18.5" width="6" height="2" rx="0.3" fill="#1e3a8a"/>
         <!-- Stern/rear deck -->
-        <ellipse cx="20" cy="30" rx="4" ry="2" fill="#475569"/>
+        <ellipse cx="20" cy="30" rx="4" ry="2" fill="#475569"/>`,
+};
+
+// Icons are sized by the vessel's reported length, on a log scale so that a
+// 300m container ship doesn't dwarf everything else
+const DEFAULT_ICON_SIZE = 40;
+const MIN_ICON_SIZE = 20;
+const MAX_ICON_SIZE = 56;
+
+// Beam to length ratio the art is drawn with. Hulls are stretched or squeezed
+// sideways to match the vessel's reported dimensions, within limits.
+const ART_BEAM_RATIO = 0.3;
+const MIN_BEAM_SCALE = 0.7;
+const MAX_BEAM_SCALE = 1.3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const getVesselStyle = (position: BoatPosition) => VESSEL_STYLES[getVesselCategory(position.shipType)];
+
+const getBoatIconSize = (position: BoatPosition): number => {
+    const { lengthMeters } = position;
+    if (lengthMeters === undefined) {
+        return DEFAULT_ICON_SIZE;
+    }
+    return Math.round(clamp(18 + 8 * Math.log2(lengthMeters / 10), MIN_ICON_SIZE, MAX_ICON_SIZE));
+};
+
+const getBoatMarkerSVG = (position: BoatPosition) => {
+    const style = getVesselStyle(position);
+    const size = getBoatIconSize(position);
+    const { lengthMeters, beamMeters } = position;
+    const beamScale =
+        lengthMeters !== undefined && beamMeters !== undefined
+            ? clamp(beamMeters / lengthMeters / ART_BEAM_RATIO, MIN_BEAM_SCALE, MAX_BEAM_SCALE)
+            : 1;
+    // Top-down vessel silhouette for its category, pointing north
+    const svg = `<svg width="${size}" height="${size}" viewBox="0 0 40 40" xmlns="http://www.w3.org/2000/svg">
+        <defs>
+            <filter id="boatShadow" x="-20%" y="-20%" width="140%" height="140%">
+                <feDropShadow dx="1" dy="1" stdDeviation="1" flood-opacity="0.3"/>
+            </filter>
+        </defs>
+        <g transform="translate(20 0) scale(${beamScale.toFixed(2)} 1) translate(-20 0)">
+            ${HULL_ART[style.shape](style)}
+        </g>
     </svg>`;
     
     return svg;
 };
 
-export class BoatPositionHandler extends PositionHandler<BoatPosition, "AISStream"> {
+export class BoatPositionHandler extends PositionHandler<BoatPosition, "boat"> {
     constructor() {
         super({
-            getMessageType: () => "AISStream",
-            getMarkerSVG: (_position) => getBoatMarkerSVG(),
-            renderPopup: (position) => <div>{position.shipName}</div>,
-            parseMessage: (rawMsg: DataSourceMessage<"AISStream">): Map<string, BoatPosition> | null => {
-                const payload: AISStreamMessagePayload = rawMsg.msg;
-                // TODO: Get heading information too...
-                if (payload.MessageType === "PositionReport") {
-                    const { MMSI, ShipName, latitude, longitude } =
-                        payload.MetaData;
-                    if (MMSI) {
-                        const newBoatPositions = new Map<string, BoatPosition>();
-                        const uniqueKey = String(MMSI);
-                        newBoatPositions.set(uniqueKey, {
-                            uniqueKey,
-                            shipName: ShipName,
-                            lat: latitude,
-                            lng: longitude,
-                            time: new Date(),
-                        });
-                        return newBoatPositions;
-                    }
-                }
-                return null;
+            getVehicleKind: () => "boat",
+            getMarkerSVG: (position) => getBoatMarkerSVG(position),
+            renderPopup: (position) => <BoatPopup position={position} />,
+            parseVehicle: (vehicle: VehicleOfKind<"boat">): BoatPosition => {
+                return {
+                    ...vehicle.attributes,
+                    uniqueKey: vehicle.id,
+                    lastSeen: vehicle.lastSeen,
+                    lat: vehicle.lat,
+                    lng: vehicle.lng,
+                    time: new Date(vehicle.lastSeen),
+                    heading: vehicle.heading,
+                    speedMetersPerSecond: vehicle.speed,
+                };
             },
         });
     }
-
-    /**
-     * Override handleMessage to handle incremental updates
-     */
-    handleMessage(rawMsg: DataSourceMessage<"AISStream"> | DataSourceMessage<any>): boolean {
-        if (rawMsg.t !== this.config.getMessageType()) {
-            return false;
-        }
-
-        const newPositions = this.config.parseMessage(rawMsg as DataSourceMessage<"AISStream">);
-        if (newPositions !== null) {
-            // Merge with existing positions instead of replacing
-            const currentPositions = new Map(this.positions.entries());
-            for (const [key, value] of newPositions.entries()) {
-                currentPositions.set(key, value);
-            }
-            this.updatePositions(currentPositions);
-            return true;
-        }
-        return false;
-    }
 }
 
 export const BoatMarkers = ({
     boatPositions,
+    now,
+    ttlMs,
+    showTrails,
 }: {
     boatPositions: Map<string, BoatPosition>;
+    now: number;
+    // How long the server keeps this kind of vehicle, which markers fade over
+    ttlMs: number;
+    showTrails: boolean;
 }) => {
     return (
         <Fragment>
+            {showTrails &&
+                Array.from(boatPositions.values()).map((position) => (
+                    <VehicleTrail
+                        key={position.uniqueKey}
+                        trail={position.trail}
+                        color={getVesselStyle(position).trail}
+                        now={now}
+                    />
+                ))}
             {Array.from(boatPositions.entries()).map(
                 ([uniqueKey, position]) => {
-                    const { lat, lng, shipName } = position;
+                    const { lat, lng } = position;
                     return (
-                        <Marker
+                        <MovingMarker
                             key={uniqueKey}
-                            position={[lat, lng]}
-                            icon={getRotatableIcon(getBoatMarkerSVG(), position.heading)}
+                            lat={lat}
+                            lng={lng}
+                            heading={position.heading}
+                            speedMetersPerSecond={position.speedMetersPerSecond}
+                            fixTime={position.lastSeen}
+                            icon={getRotatableIcon(getBoatMarkerSVG(position), position.heading, getBoatIconSize(position))}
+                            opacity={getMarkerOpacity(position.lastSeen, ttlMs, now)}
                         >
                             <Popup>
-                                <div>{shipName}</div>
+                                <BoatPopup position={position} />
                             </Popup>
-                        </Marker>
+                        </MovingMarker>
                     );
                 },
             )}
@@ -1,19 +1,65 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { debug } from "../logger";
 import type { Bounds } from "../map";
 import { AirplanePositionHandler, AirplanePosition, AirplaneMarkers } from "./airplane";
 import { BoatPositionHandler, BoatPosition, BoatMarkers } from "./boat";
 import { TrainPositionHandler, TrainPosition, TrainMarkers } from "./train";
 import { MTAPositionHandler, MTAPosition, MTAMarkers } from "./mta";
-import type { DataSourceMessage } from "../../data-sources/dataSource";
+import {
+    DEFAULT_VEHICLE_TTL_MS,
+    type VehicleKind,
+    type VehiclesMessage,
+} from "../../data-sources/vehicles";
+import {
+    getBoundsForTiles,
+    getTileForKey,
+    getTilesForBounds,
+    type SubscriptionRequest,
+    type SubscriptionResponse,
+    type Tile,
+} from "../../data-sources/regions";
 
 export { AirplaneMarkers, BoatMarkers, TrainMarkers, MTAMarkers };
 export type { AirplanePosition, BoatPosition, TrainPosition, MTAPosition };
 
-export const usePositions = (
-    currentBounds: Bounds | null,
-    onSetBounds: (bounds: Bounds) => void,
+/**
+ * Send whatever subscribe/unsubscribe requests are needed to go from the
+ * regions we've already requested to the regions we want now.
+ */
+const syncSubscriptions = (
+    websocket: WebSocket,
+    requestedRegions: Set<string>,
+    wantedRegions: Array<string>,
 ) => {
+    const wanted = new Set(wantedRegions);
+    const toUnsubscribe = Array.from(requestedRegions).filter(
+        (region) => !wanted.has(region),
+    );
+    const toSubscribe = wantedRegions.filter(
+        (region) => !requestedRegions.has(region),
+    );
+    if (toUnsubscribe.length > 0) {
+        const request: SubscriptionRequest = {
+            t: "Unsubscribe",
+            msg: { regions: toUnsubscribe },
+        };
+        websocket.send(JSON.stringify(request));
+        toUnsubscribe.forEach((region) => requestedRegions.delete(region));
+    }
+    if (toSubscribe.length > 0) {
+        const request: SubscriptionRequest = {
+            t: "Subscribe",
+            msg: { regions: toSubscribe },
+        };
+        websocket.send(JSON.stringify(request));
+        toSubscribe.forEach((region) => requestedRegions.add(region));
+    }
+};
+
+// How often to drop expired vehicles and re-fade the ones getting stale
+const EXPIRY_CHECK_INTERVAL_MS = 10 * 1000;
+
+export const usePositions = (currentBounds: Bounds | null) => {
     const airplaneHandlerRef = useRef(new AirplanePositionHandler());
     const boatHandlerRef = useRef(new BoatPositionHandler());
     const trainHandlerRef = useRef(new TrainPositionHandler());
@@ -32,12 +78,56 @@ export const usePositions = (
         Map<string, MTAPosition>
     >(new Map());
 
-    useEffect(() => {
+    // Updated on each expiry check, so that markers re-render as they age
+    const [now, setNow] = useState<number>(() => Date.now());
+
+    // How long the server keeps each kind of vehicle, once it's told us
+    const [vehicleTtlMs, setVehicleTtlMs] = useState<
+        Record<VehicleKind, number>
+    >(DEFAULT_VEHICLE_TTL_MS);
+
+    // Regions the server has confirmed we're subscribed to
+    const [subscribedRegions, setSubscribedRegions] = useState<Set<string>>(
+        new Set(),
+    );
+
+    const websocketRef = useRef<WebSocket | null>(null);
+    // Regions we've asked the server for, whether or not it has confirmed them yet
+    const requestedRegionsRef = useRef<Set<string>>(new Set());
+
+    const wantedRegions = useMemo(() => {
         if (currentBounds === null) {
-            return;
+            return [];
+        }
+        return getTilesForBounds(currentBounds).map((tile) => tile.key);
+    }, [currentBounds]);
+    const wantedRegionsRef = useRef<Array<string>>(wantedRegions);
+
+    useEffect(() => {
+        wantedRegionsRef.current = wantedRegions;
+        const websocket = websocketRef.current;
+        if (websocket !== null && websocket.readyState === WebSocket.OPEN) {
+            syncSubscriptions(
+                websocket,
+                requestedRegionsRef.current,
+                wantedRegions,
+            );
         }
+    }, [wantedRegions]);
+
+    useEffect(() => {
         // TODO: Set the domain somewhere centrally
         const websocket = new WebSocket("ws://localhost:5174");
+        websocketRef.current = websocket;
+        requestedRegionsRef.current = new Set();
+
+        const handlers = [
+            airplaneHandlerRef.current,
+            boatHandlerRef.current,
+            trainHandlerRef.current,
+            mtaHandlerRef.current,
+        ];
+
         websocket.onmessage = (e) => {
             const parsed = JSON.parse(e.data);
             debug(`got ${parsed.t} message from server:`, parsed);
@@ -45,75 +135,115 @@ export const usePositions = (
             // Handle special control messages
             if (parsed.t === "START") {
                 if (parsed.msg === "connection established") {
-                    websocket!.send(JSON.stringify(currentBounds));
+                    syncSubscriptions(
+                        websocket,
+                        requestedRegionsRef.current,
+                        wantedRegionsRef.current,
+                    );
                 }
                 return;
             }
-            if (parsed.t === "Bounds") {
-                onSetBounds(parsed.msg);
+            if (parsed.t === "Subscribed") {
+                const { regions, vehicleTtlMs: serverTtlMs } = (
+                    parsed as SubscriptionResponse
+                ).msg;
+                if (serverTtlMs !== undefined) {
+                    handlers.forEach((handler) =>
+                        handler.setVehicleTtlMs(serverTtlMs),
+                    );
+                    setVehicleTtlMs(serverTtlMs);
+                }
+                setSubscribedRegions((previous) => {
+                    const next = new Set(previous);
+                    regions.forEach((region) => next.add(region));
+                    return next;
+                });
+                return;
+            }
+            if (parsed.t === "Unsubscribed") {
+                const regions: Array<string> = parsed.msg.regions;
+                for (const region of regions) {
+                    handlers.forEach((handler) => handler.removeRegion(region));
+                }
+                setAirplanePositions(airplaneHandlerRef.current.getPositions());
+                setBoatPositions(boatHandlerRef.current.getPositions());
+                setTrainPositions(trainHandlerRef.current.getPositions());
+                setMTAPositions(mtaHandlerRef.current.getPositions());
+                setSubscribedRegions((previous) => {
+                    const next = new Set(previous);
+                    regions.forEach((region) => next.delete(region));
+                    return next;
+                });
                 return;
             }
             
-            // Type guard: check if it's a valid DataSourceMessage and route to the correct handler
-            if (parsed.t && parsed.msg !== undefined) {
-                switch (parsed.t) {
-                    case "OpenSky": {
-                        const rawMsg = parsed as DataSourceMessage<"OpenSky">;
-                        const handled = airplaneHandlerRef.current.handleMessage(rawMsg);
-                        if (handled) {
-                            const positions = airplaneHandlerRef.current.getPositions();
-                            debug(`Setting ${positions.size} airplane positions`);
-                            setAirplanePositions(positions);
-                        }
-                        break;
-                    }
-                    case "AISStream": {
-                        const rawMsg = parsed as DataSourceMessage<"AISStream">;
-                        const handled = boatHandlerRef.current.handleMessage(rawMsg);
-                        if (handled) {
-                            setBoatPositions(boatHandlerRef.current.getPositions());
-                        }
-                        break;
-                    }
-                    case "Amtraker": {
-                        const rawMsg = parsed as DataSourceMessage<"Amtraker">;
-                        const handled = trainHandlerRef.current.handleMessage(rawMsg);
-                        if (handled) {
-                            setTrainPositions(trainHandlerRef.current.getPositions());
-                        }
-                        break;
-                    }
-                    case "MTA": {
-                        const rawMsg = parsed as DataSourceMessage<"MTA">;
-                        const handled = mtaHandlerRef.current.handleMessage(rawMsg);
-                        if (handled) {
-                            setMTAPositions(mtaHandlerRef.current.getPositions());
-                        }
-                        break;
-                    }
-                    default: {
-                        console.error("unknown message type", parsed.t, parsed);
-                    }
+            if (
+                (parsed.t === "VehicleDelta" || parsed.t === "VehicleKeyframe") &&
+                parsed.msg !== undefined
+            ) {
+                const message = parsed as VehiclesMessage;
+                if (airplaneHandlerRef.current.handleMessage(message)) {
+                    const positions = airplaneHandlerRef.current.getPositions();
+                    debug(`Setting ${positions.size} airplane positions`);
+                    setAirplanePositions(positions);
+                }
+                if (boatHandlerRef.current.handleMessage(message)) {
+                    setBoatPositions(boatHandlerRef.current.getPositions());
+                }
+                if (trainHandlerRef.current.handleMessage(message)) {
+                    setTrainPositions(trainHandlerRef.current.getPositions());
+                }
+                if (mtaHandlerRef.current.handleMessage(message)) {
+                    setMTAPositions(mtaHandlerRef.current.getPositions());
                 }
             } else {
-                console.error("invalid message format", parsed);
+                console.error("unknown message type", parsed.t, parsed);
             }
         };
         return () => {
             websocket.close(1000, "component unmounted");
+            websocketRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const intervalId = setInterval(() => {
+            const checkTime = Date.now();
+            if (airplaneHandlerRef.current.expire(checkTime)) {
+                setAirplanePositions(airplaneHandlerRef.current.getPositions());
+            }
+            if (boatHandlerRef.current.expire(checkTime)) {
+                setBoatPositions(boatHandlerRef.current.getPositions());
+            }
+            if (trainHandlerRef.current.expire(checkTime)) {
+                setTrainPositions(trainHandlerRef.current.getPositions());
+            }
+            if (mtaHandlerRef.current.expire(checkTime)) {
+                setMTAPositions(mtaHandlerRef.current.getPositions());
+            }
+            setNow(checkTime);
+        }, EXPIRY_CHECK_INTERVAL_MS);
+        return () => {
+            clearInterval(intervalId);
         };
-    }, [
-        currentBounds?.minLat,
-        currentBounds?.maxLat,
-        currentBounds?.minLng,
-        currentBounds?.maxLng,
-    ]);
+    }, []);
+
+    // The area the server is actually sending us vehicles for
+    const coveredBounds = useMemo(() => {
+        const tiles = Array.from(subscribedRegions)
+            .map(getTileForKey)
+            .filter((tile): tile is Tile => tile !== null);
+        return getBoundsForTiles(tiles);
+    }, [subscribedRegions]);
 
     return {
         boatPositions,
         airplanePositions,
         trainPositions,
         mtaPositions,
+        coveredBounds,
+        now,
+        vehicleTtlMs,
     };
 };
 
@@ -0,0 +1,175 @@
+import { useEffect, useMemo, useRef, type ReactNode } from "react";
+import type {
+    LatLngTuple,
+    Marker as LeafletMarker,
+    MarkerOptions,
+} from "leaflet";
+import { Marker } from "react-leaflet";
+import {
+    interpolateSegment,
+    type TrainSegment,
+} from "../../data-sources/mta-segment";
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Don't extrapolate further than this past a fix. Sources are polled every few
+// minutes at most, and beyond that a vehicle has likely turned or stopped.
+const MAX_EXTRAPOLATION_MS = 5 * 60 * 1000;
+
+// How long a marker takes to ease over to a new fix instead of jumping there
+const SNAP_DURATION_MS = 1000;
+
+// How often to move markers that follow a segment of track
+const SEGMENT_UPDATE_INTERVAL_MS = 1000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Estimate where a vehicle is after moving in a straight line along its
+ * heading (degrees from north) at a constant speed since its last fix
+ */
+const extrapolatePosition = (
+    lat: number,
+    lng: number,
+    heading: number,
+    speedMetersPerSecond: number,
+    elapsedMs: number,
+): LatLngTuple => {
+    const elapsed = Math.min(Math.max(elapsedMs, 0), MAX_EXTRAPOLATION_MS);
+    const angularDistance =
+        (speedMetersPerSecond * elapsed) / 1000 / EARTH_RADIUS_METERS;
+    const bearing = toRadians(heading);
+    const lat1 = toRadians(lat);
+    const lng1 = toRadians(lng);
+    const lat2 = Math.asin(
+        Math.sin(lat1) * Math.cos(angularDistance) +
+            Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing),
+    );
+    const lng2 =
+        lng1 +
+        Math.atan2(
+            Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+            Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2),
+        );
+    return [toDegrees(lat2), toDegrees(lng2)];
+};
+
+const interpolate = (
+    from: LatLngTuple,
+    to: LatLngTuple,
+    progress: number,
+): LatLngTuple => {
+    return [
+        from[0] + (to[0] - from[0]) * progress,
+        from[1] + (to[1] - from[1]) * progress,
+    ];
+};
+
+/**
+ * A marker that keeps moving along its heading between fixes. When a new fix
+ * arrives it eases over to it from wherever it had been drawn. Vehicles with a
+ * known segment of track follow that instead.
+ */
+export const MovingMarker = ({
+    lat,
+    lng,
+    heading,
+    speedMetersPerSecond,
+    fixTime,
+    segment,
+    icon,
+    opacity,
+    children,
+}: {
+    lat: number;
+    lng: number;
+    heading?: number;
+    speedMetersPerSecond?: number;
+    // Unix timestamp (ms) of when the vehicle was at lat/lng
+    fixTime: number;
+    segment?: TrainSegment;
+    icon: MarkerOptions["icon"];
+    opacity?: number;
+    children?: ReactNode;
+}) => {
+    const markerRef = useRef<LeafletMarker | null>(null);
+    // Where the marker was last drawn, so a new fix doesn't make it jump
+    const drawnAtRef = useRef<LatLngTuple | null>(null);
+    // Only hand Leaflet a new position when the fix actually changes, since
+    // it moves the marker back there whenever this prop changes
+    const position = useMemo<LatLngTuple>(() => [lat, lng], [lat, lng]);
+
+    useEffect(() => {
+        const marker = markerRef.current;
+        if (marker === null) {
+            return;
+        }
+        if (segment !== undefined) {
+            const update = () => {
+                const currentTime = Date.now() / 1000;
+                const point = interpolateSegment(segment, currentTime);
+                drawnAtRef.current = [point.lat, point.lng];
+                marker.setLatLng(drawnAtRef.current);
+                // Past the next stop the train just waits for a new segment
+                if (currentTime >= segment.nextStopTime) {
+                    clearInterval(intervalId);
+                }
+            };
+            const intervalId = setInterval(update, SEGMENT_UPDATE_INTERVAL_MS);
+            update();
+            return () => {
+                clearInterval(intervalId);
+            };
+        }
+        const isMoving =
+            heading !== undefined &&
+            speedMetersPerSecond !== undefined &&
+            speedMetersPerSecond > 0;
+        if (!isMoving) {
+            drawnAtRef.current = position;
+            marker.setLatLng(position);
+            return;
+        }
+
+        const snapFrom = drawnAtRef.current;
+        const snapStart = Date.now();
+        let frameId = 0;
+        const animate = () => {
+            const now = Date.now();
+            const estimate = extrapolatePosition(
+                lat,
+                lng,
+                heading,
+                speedMetersPerSecond,
+                now - fixTime,
+            );
+            const progress = Math.min(1, (now - snapStart) / SNAP_DURATION_MS);
+            const drawnAt =
+                snapFrom !== null
+                    ? interpolate(snapFrom, estimate, progress)
+                    : estimate;
+            marker.setLatLng(drawnAt);
+            drawnAtRef.current = drawnAt;
+            // Once we've stopped extrapolating there's nothing left to animate
+            if (progress < 1 || now - fixTime < MAX_EXTRAPOLATION_MS) {
+                frameId = requestAnimationFrame(animate);
+            }
+        };
+        animate();
+        return () => {
+            cancelAnimationFrame(frameId);
+        };
+    }, [position, lat, lng, heading, speedMetersPerSecond, fixTime, segment]);
+
+    return (
+        <Marker
+            ref={markerRef}
+            position={position}
+            icon={icon}
+            opacity={opacity}
+        >
+            {children}
+        </Marker>
+    );
+};
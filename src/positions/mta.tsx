@@ -1,9 +1,11 @@
 import { Fragment } from "react";
-import { Marker, Popup } from "react-leaflet";
+import { Popup } from "react-leaflet";
 import L from "leaflet";
-import { PositionHandler, Position } from "./base";
-import type { DataSourceMessage } from "../../data-sources/dataSource";
-import type { MTAMessagePayload } from "../../data-sources/messagePayloads";
+import { PositionHandler, Position, getMarkerOpacity } from "./base";
+import { VehicleTrail } from "./trail";
+import { MovingMarker } from "./motion";
+import type { VehicleOfKind } from "../../data-sources/vehicles";
+import type { TrainSegment } from "../../data-sources/mta-segment";
 
 export type MTAPosition = Position & {
     tripId: string;
@@ -14,6 +16,7 @@ export type MTAPosition = Position & {
     lastStop?: string;
     progress?: number;
     heading?: number; // Bearing in degrees (0 = North, 90 = East, 180 = South, 270 = West)
+    segment?: TrainSegment;
 };
 
 /**
@@ -169,36 +172,21 @@ const MTAPopup = ({ position }: { position: MTAPosition }) => {
     );
 };
 
-export class MTAPositionHandler extends PositionHandler<MTAPosition, "MTA"> {
+export class MTAPositionHandler extends PositionHandler<MTAPosition, "transit"> {
     constructor() {
         super({
-            getMessageType: () => "MTA",
+            getVehicleKind: () => "transit",
             getMarkerSVG: (position) => getMTAMarkerSVG(position.routeId, position.routeColor, position.heading),
             renderPopup: (position) => <MTAPopup position={position} />,
-            parseMessage: (rawMsg: DataSourceMessage<"MTA">): Map<string, MTAPosition> | null => {
-                const payload: MTAMessagePayload = rawMsg.msg;
-                if (!payload.trains) {
-                    return null;
-                }
-                
-                const newMTAPositions = new Map<string, MTAPosition>();
-                for (const train of payload.trains) {
-                    const uniqueKey = train.tripId || `${train.routeId}-${train.lat}-${train.lng}`;
-                    newMTAPositions.set(uniqueKey, {
-                        uniqueKey,
-                        lat: train.lat,
-                        lng: train.lng,
-                        tripId: train.tripId,
-                        routeId: train.routeId,
-                        routeColor: train.routeColor,
-                        direction: train.direction,
-                        nextStop: train.nextStop,
-                        lastStop: train.lastStop,
-                        progress: train.progress,
-                        heading: train.heading,
-                    });
-                }
-                return newMTAPositions;
+            parseVehicle: (vehicle: VehicleOfKind<"transit">): MTAPosition => {
+                return {
+                    ...vehicle.attributes,
+                    uniqueKey: vehicle.id,
+                    lastSeen: vehicle.lastSeen,
+                    lat: vehicle.lat,
+                    lng: vehicle.lng,
+                    heading: vehicle.heading,
+                };
             },
         });
     }
@@ -206,21 +194,41 @@ export class MTAPositionHandler extends PositionHandler<MTAPosition, "MTA"> {
 
 export const MTAMarkers = ({
     mtaPositions,
+    now,
+    ttlMs,
+    showTrails,
 }: {
     mtaPositions: Map<string, MTAPosition>;
+    now: number;
+    // How long the server keeps this kind of vehicle, which markers fade over
+    ttlMs: number;
+    showTrails: boolean;
 }) => {
     return (
         <Fragment>
+            {showTrails &&
+                Array.from(mtaPositions.values()).map((position) => (
+                    <VehicleTrail
+                        key={position.uniqueKey}
+                        trail={position.trail}
+                        color={getMTARouteColor(position.routeId, position.routeColor)}
+                        now={now}
+                    />
+                ))}
             {Array.from(mtaPositions.entries()).map(([_, position]) => (
-                <Marker
+                <MovingMarker
                     key={position.uniqueKey}
-                    position={[position.lat, position.lng]}
+                    lat={position.lat}
+                    lng={position.lng}
+                    fixTime={position.lastSeen}
+                    segment={position.segment}
                     icon={getMTAIcon(getMTAMarkerSVG(position.routeId, position.routeColor, position.heading))}
+                    opacity={getMarkerOpacity(position.lastSeen, ttlMs, now)}
                 >
                     <Popup>
                         <MTAPopup position={position} />
                     </Popup>
-                </Marker>
+                </MovingMarker>
             ))}
         </Fragment>
     );
@@ -0,0 +1,47 @@
+import { Fragment } from "react";
+import { Polyline } from "react-leaflet";
+import { trimTrail, type TrailPoint } from "../../data-sources/trails";
+
+// Opacity of the newest segment of a trail. Older segments fade out from here.
+const HEAD_OPACITY = 0.7;
+
+/**
+ * Draw where a vehicle has recently been, fading out towards the oldest point
+ */
+export const VehicleTrail = ({
+    trail,
+    color,
+    now,
+}: {
+    trail: TrailPoint[] | undefined;
+    color: string;
+    now: number;
+}) => {
+    const points = trimTrail(trail ?? [], now);
+    if (points.length < 2) {
+        return null;
+    }
+    const segmentCount = points.length - 1;
+    return (
+        <Fragment>
+            {points.slice(1).map((point, i) => {
+                const previous = points[i];
+                return (
+                    <Polyline
+                        key={`${previous.time}-${point.time}`}
+                        positions={[
+                            [previous.lat, previous.lng],
+                            [point.lat, point.lng],
+                        ]}
+                        pathOptions={{
+                            color,
+                            weight: 2,
+                            opacity: (HEAD_OPACITY * (i + 1)) / segmentCount,
+                            interactive: false,
+                        }}
+                    />
+                );
+            })}
+        </Fragment>
+    );
+};
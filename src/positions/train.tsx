@@ -1,13 +1,14 @@
 import { Fragment, useEffect } from "react";
-import { Marker, Popup } from "react-leaflet";
+import { Popup } from "react-leaflet";
 import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Doc } from "../../convex/_generated/dataModel";
 import { toast } from "react-hot-toast";
 import { getRotatableIcon } from "../marker";
-import { PositionHandler, Position } from "./base";
-import type { DataSourceMessage } from "../../data-sources/dataSource";
-import type { AmtrakerMessagePayload } from "../../data-sources/messagePayloads";
+import { PositionHandler, Position, getMarkerOpacity } from "./base";
+import { VehicleTrail } from "./trail";
+import { MovingMarker } from "./motion";
+import type { VehicleOfKind } from "../../data-sources/vehicles";
 
 export type TrainStation = {
     name: string;
@@ -31,6 +32,7 @@ export type TrainPosition = Position & {
     trainTimely: string;
     stations: Array<TrainStation>;
     heading?: number; // Bearing in degrees (0 = North, 90 = East, 180 = South, 270 = West)
+    speedMetersPerSecond?: number;
 };
 
 const computeStations = (
@@ -189,26 +191,23 @@ const TrainPopup = ({ position }: { position: TrainPosition }) => {
     );
 };
 
-export class TrainPositionHandler extends PositionHandler<TrainPosition, "Amtraker"> {
+export class TrainPositionHandler extends PositionHandler<TrainPosition, "train"> {
     constructor() {
         super({
-            getMessageType: () => "Amtraker",
+            getVehicleKind: () => "train",
             getMarkerSVG: () => getTrainMarkerSVG(),
             renderPopup: (position) => <TrainPopup position={position} />,
-            parseMessage: (rawMsg: DataSourceMessage<"Amtraker">): Map<string, TrainPosition> | null => {
-                const payload: AmtrakerMessagePayload = rawMsg.msg;
-                const newTrainPositions = new Map<string, TrainPosition>();
-                for (const key of Object.keys(payload)) {
-                    const trainRoute = payload[key];
-                    for (const train of trainRoute) {
-                        newTrainPositions.set(train.trainID, {
-                            ...train,
-                            uniqueKey: train.trainID,
-                            lng: train.lon,
-                        });
-                    }
-                }
-                return newTrainPositions;
+            parseVehicle: (vehicle: VehicleOfKind<"train">): TrainPosition => {
+                return {
+                    ...vehicle.attributes,
+                    uniqueKey: vehicle.id,
+                    lastSeen: vehicle.lastSeen,
+                    lat: vehicle.lat,
+                    lng: vehicle.lng,
+                    lon: vehicle.lng,
+                    heading: vehicle.heading,
+                    speedMetersPerSecond: vehicle.speed,
+                };
             },
         });
     }
@@ -216,23 +215,44 @@ export class TrainPositionHandler extends PositionHandler<TrainPosition, "Amtrak
 
 export const TrainMarkers = ({
     trainPositions,
+    now,
+    ttlMs,
+    showTrails,
 }: {
     trainPositions: Map<string, TrainPosition>;
+    now: number;
+    // How long the server keeps this kind of vehicle, which markers fade over
+    ttlMs: number;
+    showTrails: boolean;
 }) => {
     return (
         <Fragment>
+            {showTrails &&
+                Array.from(trainPositions.values()).map((position) => (
+                    <VehicleTrail
+                        key={position.uniqueKey}
+                        trail={position.trail}
+                        color="#dc2626"
+                        now={now}
+                    />
+                ))}
             {Array.from(trainPositions.entries()).map(([_, position]) => {
                 const { lat, lon, trainID } = position;
                     return (
-                        <Marker
+                        <MovingMarker
                             key={trainID}
-                            position={[lat, lon]}
+                            lat={lat}
+                            lng={lon}
+                            heading={position.heading}
+                            speedMetersPerSecond={position.speedMetersPerSecond}
+                            fixTime={position.lastSeen}
                             icon={getRotatableIcon(getTrainMarkerSVG(), position.heading)}
+                            opacity={getMarkerOpacity(position.lastSeen, ttlMs, now)}
                         >
                         <Popup>
                             <TrainPopup position={position} />
                         </Popup>
-                    </Marker>
+                    </MovingMarker>
                 );
             })}
         </Fragment>
@@ -1,29 +1,57 @@
 import WebSocket, { WebSocketServer } from "ws";
 import {
     initializeDataSources,
+    type DataSource,
     type DataSourceConfig,
     type DataSourceMessage,
-    type InitializedDataSources,
     type MessageType,
 } from "./data-sources";
+import {
+    getTileForKey,
+    MAX_TILES_PER_SIDE,
+    type Bounds,
+    type SubscriptionRequest,
+    type SubscriptionResponse,
+    type Tile,
+} from "./data-sources/regions";
+import { VehicleStore, type VehicleChange } from "./data-sources/vehicleStore";
+import type { Recorder } from "./data-sources/recorder";
+import type { AircraftDatabase } from "./data-sources/aircraftDatabase";
+import type { FlightRouteService } from "./data-sources/flightRouteService";
+import type { VehicleDetailsCache } from "./data-sources/vehicleDetails";
+import { ReplaySource } from "./data-sources/replay";
+import { diffVehicles } from "./data-sources/vehicleDelta";
+import type {
+    VehicleDeltaMessage,
+    VehicleKeyframeMessage,
+    Vehicle,
+    VehicleKind,
+    VehicleOp,
+} from "./data-sources/vehicles";
 
-type Bounds = {
-    maxLat: number;
-    minLat: number;
-    maxLng: number;
-    minLng: number;
-};
+export interface WebsocketServerOptions {
+    // How long a region keeps each kind of vehicle after it was last reported
+    vehicleTtlMs: Record<VehicleKind, number>;
+    // If set, every message the data sources broadcast is also recorded here
+    recorder?: Recorder;
+    // If set, this recording is played back instead of running the live
+    // data sources
+    replay?: { path: string; speed: number };
+    // If set, airplanes are tagged with their type from this database
+    aircraftDatabase?: AircraftDatabase;
+    // If set, airplanes are tagged with their route, once it's been looked up
+    flightRoutes?: FlightRouteService;
+    // If set, details that vehicles only report now and then are remembered
+    // here and filled in on the reports without them
+    vehicleDetails?: VehicleDetailsCache;
+}
 
-const getKeyForBounds = ({
-    maxLat,
-    minLat,
-    maxLng,
-    minLng,
-}: Bounds): string => {
-    return `${maxLat.toFixed(6)}-${minLat.toFixed(6)}-${maxLng.toFixed(
-        6,
-    )}-${minLng.toFixed(6)}`;
-};
+// How often each region checks for vehicles that have expired
+const EXPIRY_INTERVAL_MS = 30 * 1000;
+
+// How often each region re-sends every vehicle, so that clients can't drift
+// too far out of sync if they somehow missed a delta
+const KEYFRAME_INTERVAL_MS = 5 * 60 * 1000;
 
 class RegionFetcher {
     private key: string;
@@ -31,13 +59,13 @@ class RegionFetcher {
     private refs: number;
     private lastAccessedTime: Date;
 
-    private messages: Array<string> = [];
-    private listeners: Array<{
-        messageIndex: number;
-        ws: WebSocket | null;
-    }> = [];
+    private vehicleStore: VehicleStore;
+    private expiryIntervalId: NodeJS.Timeout;
+    private keyframeIntervalId: NodeJS.Timeout;
+    private listeners = new Set<WebSocket>();
+    private unsubscribeFromRoutes?: () => void;
 
-    private dataSources: InitializedDataSources;
+    private dataSources: DataSource[];
 
     public destroyed: boolean = false;
 
@@ -45,11 +73,47 @@ class RegionFetcher {
         console.log("Fetcher: ", this.key, ...args);
     }
 
-    constructor(bounds: Bounds, aisApiKey: string) {
-        this.key = getKeyForBounds(bounds);
+    constructor({ key, bounds }: Tile, options: WebsocketServerOptions) {
+        this.key = key;
         this.bounds = bounds;
         this.refs = 0;
         this.lastAccessedTime = new Date();
+        const { aircraftDatabase, flightRoutes, vehicleDetails } = options;
+        const enrich = (vehicle: Vehicle): Vehicle => {
+            const withDetails = vehicleDetails?.enrich(vehicle) ?? vehicle;
+            const withAircraft =
+                aircraftDatabase?.enrich(withDetails) ?? withDetails;
+            return flightRoutes?.enrich(withAircraft) ?? withAircraft;
+        };
+        this.vehicleStore = new VehicleStore({
+            ttlMs: options.vehicleTtlMs,
+            enrich,
+        });
+        // Routes are looked up in the background, so airplanes that were
+        // waiting on one are sent again once it's found
+        this.unsubscribeFromRoutes = flightRoutes?.subscribe((callsign) => {
+            const waiting = this.vehicleStore
+                .getVehicles("airplane")
+                .filter(
+                    (vehicle) =>
+                        vehicle.kind === "airplane" &&
+                        vehicle.attributes.callsign?.toUpperCase() === callsign,
+                );
+            if (waiting.length > 0) {
+                this.broadcastChanges(
+                    this.vehicleStore.upsert(waiting.map(enrich)),
+                );
+            }
+        });
+        this.expiryIntervalId = setInterval(() => {
+            this.broadcastChanges(this.vehicleStore.expire());
+        }, EXPIRY_INTERVAL_MS);
+        this.keyframeIntervalId = setInterval(() => {
+            const keyframe = this.serializeKeyframe();
+            for (const ws of this.listeners) {
+                this.sendToClient(ws, keyframe);
+            }
+        }, KEYFRAME_INTERVAL_MS);
 
         const config: DataSourceConfig = {
             bounds: {
@@ -72,67 +136,122 @@ class RegionFetcher {
             this.log(...args);
         };
 
-        // Initialize and start all data sources
+        if (options.replay !== undefined) {
+            const replaySource = new ReplaySource(config, broadcast, logger, {
+                ...options.replay,
+                region: key,
+            });
+            replaySource.start();
+            this.dataSources = [replaySource];
+            return;
+        }
+
+        // Initialize and start every data source that can run here
         this.dataSources = initializeDataSources(
             config,
-            broadcast,
+            options.recorder?.wrap(key, broadcast) ?? broadcast,
             logger,
-            aisApiKey,
         );
     }
 
     private addAndBroadcastMessage<T extends MessageType>(
         message: DataSourceMessage<T>,
     ) {
+        const changes = this.vehicleStore.ingest(message);
         this.log(
-            `got ${message.t} message. Appending as message ${this.messages.length}`,
+            `got ${message.t} message with ${changes.length} changes. ${this.vehicleStore.size} vehicles in region, broadcasting to ${this.listeners.size} listeners`,
         );
-        this.messages.push(JSON.stringify(message));
-        this.broadcastMessage(this.messages.length - 1);
+        this.broadcastChanges(changes);
     }
 
-    private broadcastMessage(index: number) {
-        let i = 0;
-        this.log("broadcasting msgIndex", index);
-        for (let i = 0; i < this.listeners.length; i++) {
-            this.sendMessagesToClient(i);
+    private broadcastChanges(changes: VehicleChange[]) {
+        if (changes.length === 0) {
+            return;
+        }
+        const ops: VehicleOp[] = [];
+        for (const change of changes) {
+            switch (change.type) {
+                case "add": {
+                    ops.push({ op: "add", vehicle: change.vehicle });
+                    break;
+                }
+                case "update": {
+                    const diff = diffVehicles(change.previous, change.vehicle);
+                    if (diff !== null) {
+                        ops.push({
+                            op: "update",
+                            id: change.vehicle.id,
+                            changes: diff,
+                        });
+                    }
+                    break;
+                }
+                case "remove": {
+                    ops.push({ op: "remove", id: change.vehicle.id });
+                    break;
+                }
+            }
+        }
+        if (ops.length === 0) {
+            return;
+        }
+        // Tag each message with the tile it came from, so that clients
+        // subscribed to several tiles can keep their vehicles apart.
+        const message: VehicleDeltaMessage = {
+            t: "VehicleDelta",
+            msg: { ops },
+            region: this.key,
+        };
+        const serialized = JSON.stringify(message);
+        for (const ws of this.listeners) {
+            this.sendToClient(ws, serialized);
         }
     }
 
-    private sendMessagesToClient(i: number) {
-        setTimeout(() => {
-            const ws = this.listeners[i].ws;
-            let messageIndex = this.listeners[i].messageIndex;
-            while (ws && messageIndex < this.messages.length) {
-                this.log("sending", messageIndex, "to", i);
-                ws.send(this.messages[messageIndex]);
-                messageIndex++;
-                this.listeners[i].messageIndex = messageIndex;
-            }
-        }, 0);
+    private serializeKeyframe(): string {
+        const message: VehicleKeyframeMessage = {
+            t: "VehicleKeyframe",
+            msg: {
+                vehicles: this.vehicleStore.getVehicles(),
+                trails: this.vehicleStore.getTrails(),
+            },
+            region: this.key,
+        };
+        return JSON.stringify(message);
+    }
+
+    private sendToClient(ws: WebSocket, serialized: string) {
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.send(serialized);
+        }
     }
 
     public addRef(ws: WebSocket) {
+        if (this.listeners.has(ws)) {
+            return;
+        }
         this.refs += 1;
         this.lastAccessedTime = new Date();
-        const i = this.listeners.length;
-        this.listeners.push({
-            messageIndex: 0,
-            ws,
-        });
-        // Send all the messages we already have!
-        this.log("catching up client", i);
-        this.sendMessagesToClient(i);
-        this.log("finished catching up", i);
+        this.listeners.add(ws);
+        // Catch the client up on the current state of the region, after
+        // it's been told about the subscription.
+        setTimeout(() => {
+            // The client may have unsubscribed before this ran
+            if (!this.listeners.has(ws)) {
+                return;
+            }
+            this.log(
+                `catching up client with ${this.vehicleStore.size} vehicles`,
+            );
+            this.sendToClient(ws, this.serializeKeyframe());
+        }, 0);
     }
 
     public removeRef(ws: WebSocket) {
-        this.refs -= 1;
-        for (let i = 0; i < this.listeners.length; i++) {
-            if (this.listeners[i].ws === ws) {
-                this.listeners[i].ws = null;
-            }
+        if (!this.listeners.delete(ws)) {
+            return;
         }
+        this.refs -= 1;
         if (this.refs === 0) {
             const lastRefRemovalTime = new Date();
             this.lastAccessedTime = lastRefRemovalTime;
@@ -148,28 +267,33 @@ class RegionFetcher {
     }
 
     public destroy() {
-        this.dataSources.aisStream.stop();
-        this.dataSources.openSky.stop();
-        this.dataSources.amtraker.stop();
-        this.dataSources.mta.stop();
+        for (const dataSource of this.dataSources) {
+            dataSource.stop();
+        }
+        clearInterval(this.expiryIntervalId);
+        clearInterval(this.keyframeIntervalId);
+        this.unsubscribeFromRoutes?.();
         this.destroyed = true;
     }
 }
 
-const fetchersByBounds = new Map<string, RegionFetcher>();
+const fetchersByTile = new Map<string, RegionFetcher>();
 
-const registerBounds = (ws: WebSocket, bounds: Bounds, aisApiKey: string) => {
-    const key = getKeyForBounds(bounds);
-    console.log("registering key", key);
+const registerTile = (
+    ws: WebSocket,
+    tile: Tile,
+    options: WebsocketServerOptions,
+) => {
+    console.log("registering tile", tile.key);
 
-    if (!fetchersByBounds.has(key)) {
-        fetchersByBounds.set(key, new RegionFetcher(bounds, aisApiKey));
+    if (!fetchersByTile.has(tile.key)) {
+        fetchersByTile.set(tile.key, new RegionFetcher(tile, options));
     }
-    let fetcher = fetchersByBounds.get(key)!;
+    let fetcher = fetchersByTile.get(tile.key)!;
     if (fetcher.destroyed) {
         console.log("resetting a previously-destroyed fetcher");
-        fetchersByBounds.set(key, new RegionFetcher(bounds, aisApiKey));
-        fetcher = fetchersByBounds.get(key)!;
+        fetchersByTile.set(tile.key, new RegionFetcher(tile, options));
+        fetcher = fetchersByTile.get(tile.key)!;
     }
     fetcher.addRef(ws);
     return () => {
@@ -177,39 +301,106 @@ const registerBounds = (ws: WebSocket, bounds: Bounds, aisApiKey: string) => {
     };
 };
 
-// TODO: Find the bounds that overlap with what the user passes in, and then use those.
-const allowedBounds: Bounds = {
-    minLat: 40.6,
-    maxLat: 40.9,
-    minLng: -74.3,
-    maxLng: -73.7,
+// Leave room for a client to briefly hold on to a few extra tiles while it
+// pans, but don't let a single connection start fetchers all over the world.
+const MAX_SUBSCRIPTIONS_PER_CLIENT =
+    2 * MAX_TILES_PER_SIDE * MAX_TILES_PER_SIDE;
+
+const isSubscriptionRequest = (
+    rawMsg: unknown,
+): rawMsg is SubscriptionRequest => {
+    if (typeof rawMsg !== "object" || rawMsg === null) {
+        return false;
+    }
+    const { t, msg } = rawMsg as SubscriptionRequest;
+    return (
+        (t === "Subscribe" || t === "Unsubscribe") &&
+        Array.isArray(msg?.regions) &&
+        msg.regions.every((region) => typeof region === "string")
+    );
 };
 
-export const setupWebsocketServer = (aisApiKey: string) => {
+export const setupWebsocketServer = (options: WebsocketServerOptions) => {
     const socketServer = new WebSocketServer({ port: 5174 });
     socketServer.on("connection", (ws) => {
         console.log("client connected");
 
-        let disconnectFn: null | (() => void) = null;
+        // Region key -> function to remove this client from that region
+        const subscriptions = new Map<string, () => void>();
+
+        const subscribe = (regions: string[]): string[] => {
+            const subscribed: string[] = [];
+            for (const region of regions) {
+                const tile = getTileForKey(region);
+                if (tile === null) {
+                    console.log("ignoring invalid region from client:", region);
+                    continue;
+                }
+                if (!subscriptions.has(tile.key)) {
+                    if (subscriptions.size >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+                        console.log("too many subscriptions, ignoring", region);
+                        continue;
+                    }
+                    subscriptions.set(
+                        tile.key,
+                        registerTile(ws, tile, options),
+                    );
+                }
+                subscribed.push(tile.key);
+            }
+            return subscribed;
+        };
+
+        const unsubscribe = (regions: string[]): string[] => {
+            const unsubscribed: string[] = [];
+            for (const region of regions) {
+                const removeRef = subscriptions.get(region);
+                if (removeRef) {
+                    removeRef();
+                    subscriptions.delete(region);
+                    unsubscribed.push(region);
+                }
+            }
+            return unsubscribed;
+        };
 
         ws.send(JSON.stringify({ t: "START", msg: "connection established" }));
         ws.on("close", (code, reason) => {
             console.log("client disconnected.", code, reason);
-            disconnectFn?.();
+            unsubscribe(Array.from(subscriptions.keys()));
         });
         ws.on("error", (e) => {
             console.log("websocket error", e);
         });
         ws.on("message", (data) => {
-            const rawMsg = JSON.parse(data.toString());
-            console.log(
-                "got message from client:",
-                rawMsg,
-                "using bounds",
-                allowedBounds,
-            );
-            disconnectFn = registerBounds(ws, allowedBounds, aisApiKey);
-            ws.send(JSON.stringify({ t: "Bounds", msg: allowedBounds }));
+            let rawMsg: unknown;
+            try {
+                rawMsg = JSON.parse(data.toString());
+            } catch {
+                console.log("ignoring malformed message from client");
+                return;
+            }
+            if (!isSubscriptionRequest(rawMsg)) {
+                console.log("ignoring invalid message from client:", rawMsg);
+                return;
+            }
+            console.log("got message from client:", rawMsg);
+            let response: SubscriptionResponse;
+            if (rawMsg.t === "Subscribe") {
+                response = {
+                    t: "Subscribed",
+                    msg: {
+                        regions: subscribe(rawMsg.msg.regions),
+                        vehicleTtlMs: options.vehicleTtlMs,
+                    },
+                };
+            } else {
+                response = {
+                    t: "Unsubscribed",
+                    msg: { regions: unsubscribe(rawMsg.msg.regions) },
+                };
+            }
+            ws.send(JSON.stringify(response));
         });
     });
 };